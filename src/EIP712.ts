@@ -9,6 +9,7 @@ import {
   EIP712Types,
   Signature,
 } from './types';
+import { TropykusError, ValidationError } from './errors';
 
 function abiRawEncode(encTypes, encValues) {
   const hexStr = ethers.utils.defaultAbiCoder.encode(encTypes, encValues);
@@ -49,7 +50,7 @@ function encodeType(primaryType, types = {}) {
   let result = '';
   for (const type of deps) {
     if (!types[type])
-      throw new Error(`Type '${type}' not defined in types (${JSON.stringify(types)})`);
+      throw new ValidationError(`Type '${type}' not defined in types (${JSON.stringify(types)})`);
     result += `${type}(${types[type].map(({ name, type }) => `${type} ${name}`).join(',')})`;
   }
   return result;
@@ -146,7 +147,7 @@ export async function sign(
       signature = { r, s, v };
     }
   } catch(e) {
-    throw new Error(e);
+    throw new TropykusError(String(e), 'SIGNATURE_FAILED', e);
   }
 
   return signature;
@@ -0,0 +1,423 @@
+/**
+ * @file Account
+ * @desc These methods read the positions of an account in the cToken markets
+ *     directly from the chain, without relying on the Tropykus API, and the
+ *     amounts the protocol allows it to borrow and redeem.
+ */
+
+import { ethers } from "ethers";
+import * as eth from "./eth";
+import { netId, getMarket, getMarkets, getUnderlyingPrice } from "./helpers";
+import { address, abi, decimals } from "./constants";
+import { BigNumber } from "@ethersproject/bignumber/lib/bignumber";
+import { AccountPosition, CallOptions, MarketInfo } from "./types";
+import { getNetNameWithChainId } from "./util";
+import { decodeFailure, ProtocolError, ValidationError } from "./errors";
+
+/**
+ * Reads the deposits, borrows and collateral membership of an account in
+ *     every market the SDK knows for the network of the provider. Deposits and
+ *     borrows include the interest accrued up to the current block.
+ *
+ * @param {string} account The address of the account.
+ * @param {CallOptions} [options] Call options and Ethers.js overrides for the
+ *     `eth_call`s, like `blockTag`.
+ *
+ * @returns {AccountPosition[]} Returns an array with the position of the
+ *     account in each market. Amounts are in the underlying asset, except
+ *     `cTokenBalance`.
+ *
+ * @example
+ *
+ * ```
+ * const tropykus = new Tropykus('https://public-node.rsk.co');
+ *
+ * (async function () {
+ *   const positions = await tropykus.getAccountPositions('0x123...');
+ *   positions.forEach((p) => console.log(p.cToken, p.deposits, p.borrows));
+ * })().catch(console.error);
+ * ```
+ */
+export async function getAccountPositions(
+	account: string,
+	options: CallOptions = {}
+): Promise<AccountPosition[]> {
+	await netId(this);
+	const errorPrefix = "Compound [getAccountPositions] | ";
+
+	if (!ethers.utils.isAddress(account)) {
+		throw new ValidationError(
+			errorPrefix + "Argument `account` must be a valid Ethereum address."
+		);
+	}
+
+	const comptrollerAddress =
+		address[getNetNameWithChainId(this._network.id)].Comptroller;
+
+	const assetsIn: string[] = await eth.read(
+		comptrollerAddress,
+		"getAssetsIn",
+		[account],
+		{ ...options, _compoundProvider: this._provider, abi: abi.Comptroller }
+	);
+	const collateralAddresses = assetsIn.map((a) => a.toLowerCase());
+
+	return Promise.all(
+		getMarkets(this).map(async (market) => {
+			const trxOptions: CallOptions = {
+				...options,
+				_compoundProvider: this._provider,
+				abi: market.abi,
+			};
+
+			const [snapshot, balanceOfUnderlying, borrowBalanceCurrent] =
+				await Promise.all([
+					eth.read(
+						market.cTokenAddress,
+						"getAccountSnapshot",
+						[account],
+						trxOptions
+					),
+					eth.read(
+						market.cTokenAddress,
+						"balanceOfUnderlying",
+						[account],
+						trxOptions
+					),
+					eth.read(
+						market.cTokenAddress,
+						"borrowBalanceCurrent",
+						[account],
+						trxOptions
+					),
+				]);
+
+			if (!snapshot[0].isZero()) {
+				const failure = decodeFailure("cToken", Number(snapshot[0]));
+				throw new ProtocolError(
+					errorPrefix +
+						"Market `" +
+						market.cTokenName +
+						"` returned an error. " +
+						failure.description,
+					failure.errorName
+				);
+			}
+
+			const underlyingDecimals = decimals[market.underlying];
+			const cTokenDecimals = decimals[market.cTokenName];
+			const exchangeRateDecimals = 18 + underlyingDecimals - cTokenDecimals;
+
+			return {
+				asset: market.underlying,
+				cToken: market.cTokenName,
+				address: market.cTokenAddress,
+				cTokenBalance: Number(snapshot[1]) / Math.pow(10, cTokenDecimals),
+				deposits:
+					Number(balanceOfUnderlying) / Math.pow(10, underlyingDecimals),
+				borrows:
+					Number(borrowBalanceCurrent) / Math.pow(10, underlyingDecimals),
+				exchangeRate: Number(snapshot[3]) / Math.pow(10, exchangeRateDecimals),
+				isCollateral: collateralAddresses.includes(
+					market.cTokenAddress.toLowerCase()
+				),
+			};
+		})
+	);
+}
+
+/**
+ * Reads the state of an account and a market that limits how much the account
+ *     can borrow or redeem from it. Every value is a mantissa.
+ *
+ * @hidden
+ *
+ * @param {string} account The address of the account.
+ * @param {MarketInfo} market The market to borrow or redeem from.
+ * @param {CallOptions} options Call options for every `eth_call`.
+ * @param {string} errorPrefix The prefix of the errors thrown.
+ *
+ * @returns {object} Returns the liquidity values of the account and its
+ *     position, and the cash, borrow cap and price of the market.
+ */
+async function readLimits(
+	account: string,
+	market: MarketInfo,
+	options: CallOptions,
+	errorPrefix: string
+) {
+	if (!ethers.utils.isAddress(account)) {
+		throw new ValidationError(
+			errorPrefix + "Argument `account` must be a valid Ethereum address."
+		);
+	}
+
+	const comptrollerAddress =
+		address[getNetNameWithChainId(this._network.id)].Comptroller;
+
+	const compOptions: CallOptions = {
+		...options,
+		_compoundProvider: this._provider,
+		abi: abi.Comptroller,
+	};
+	const cTokenOptions: CallOptions = {
+		...options,
+		_compoundProvider: this._provider,
+		abi: market.abi,
+	};
+
+	const [
+		accountLiquidity,
+		isMember,
+		marketConfig,
+		borrowCap,
+		borrowPaused,
+		snapshot,
+		cash,
+		totalBorrows,
+		price,
+	] = await Promise.all([
+		eth.read(comptrollerAddress, "getAccountLiquidity", [account], compOptions),
+		eth.read(
+			comptrollerAddress,
+			"checkMembership",
+			[account, market.cTokenAddress],
+			compOptions
+		),
+		eth.read(
+			comptrollerAddress,
+			"markets",
+			[market.cTokenAddress],
+			compOptions
+		),
+		eth.read(
+			comptrollerAddress,
+			"borrowCaps",
+			[market.cTokenAddress],
+			compOptions
+		),
+		eth.read(
+			comptrollerAddress,
+			"borrowGuardianPaused",
+			[market.cTokenAddress],
+			compOptions
+		),
+		eth.read(
+			market.cTokenAddress,
+			"getAccountSnapshot",
+			[account],
+			cTokenOptions
+		),
+		eth.read(market.cTokenAddress, "getCash", [], cTokenOptions),
+		eth.read(market.cTokenAddress, "totalBorrows", [], cTokenOptions),
+		getUnderlyingPrice(this, market, options),
+	]);
+
+	// The liquidity comes from the Comptroller and the snapshot from the
+	//     cToken, and their error codes are decoded from their own catalogs.
+	const failure = !accountLiquidity[0].isZero()
+		? decodeFailure("comptroller", Number(accountLiquidity[0]))
+		: !snapshot[0].isZero()
+		? decodeFailure("cToken", Number(snapshot[0]))
+		: null;
+	if (failure) {
+		throw new ProtocolError(
+			errorPrefix +
+				"Market `" +
+				market.cTokenName +
+				"` returned an error. " +
+				failure.description,
+			failure.errorName
+		);
+	}
+
+	const cTokenBalance: BigNumber = snapshot[1];
+	const exchangeRate: BigNumber = snapshot[3];
+
+	return {
+		liquidity: accountLiquidity[1] as BigNumber,
+		shortfall: accountLiquidity[2] as BigNumber,
+		isMember: !!isMember,
+		collateralFactor: marketConfig.collateralFactorMantissa as BigNumber,
+		borrowCap: borrowCap as BigNumber,
+		borrowPaused: !!borrowPaused,
+		supplied: cTokenBalance.mul(exchangeRate).div(ethers.constants.WeiPerEther),
+		cash: cash as BigNumber,
+		totalBorrows: totalBorrows as BigNumber,
+		price: price as BigNumber,
+	};
+}
+
+/**
+ * Formats a limit of an account in the underlying asset of a market: the
+ *     exact mantissa with the `mantissa` option, or a number otherwise.
+ *
+ * @hidden
+ *
+ * @param {BigNumber} amount The limit as a mantissa, rounded down.
+ * @param {MarketInfo} market The market of the limit.
+ * @param {CallOptions} options The options of the call.
+ *
+ * @returns {number | string} Returns the limit.
+ */
+function formatLimit(
+	amount: BigNumber,
+	market: MarketInfo,
+	options: CallOptions
+): number | string {
+	if (options.mantissa) {
+		return amount.toString();
+	}
+	return Number(amount) / Math.pow(10, decimals[market.underlying]);
+}
+
+/**
+ * Calculates the largest amount of an asset an account can borrow: the
+ *     lowest of what its liquidity covers at the oracle price, the cash of the
+ *     market and what is left under its borrow cap. Interest accrued before
+ *     the borrow is mined can lower the limit slightly.
+ *
+ * @param {string} asset A string of the underlying asset or the cToken name
+ *     of the market.
+ * @param {string} account The address of the account.
+ * @param {CallOptions} [options] Call options and Ethers.js overrides for the
+ *     `eth_call`s. Set `mantissa` to get the exact amount, rounded down, to
+ *     pass to `borrow` with the `mantissa` option.
+ *
+ * @returns {number | string} Returns the amount of the underlying asset, 0 if
+ *     the account cannot borrow.
+ *
+ * @example
+ *
+ * ```
+ * const tropykus = new Tropykus('https://public-node.rsk.co');
+ *
+ * (async function () {
+ *   const max = await tropykus.getMaxBorrow(Tropykus.DOC, '0x123...');
+ *   console.log('Max DOC borrow', max);
+ * })().catch(console.error);
+ * ```
+ */
+export async function getMaxBorrow(
+	asset: string,
+	account: string,
+	options: CallOptions = {}
+): Promise<number | string> {
+	await netId(this);
+	const errorPrefix = "Compound [getMaxBorrow] | ";
+
+	const market = getMarket(this, asset, errorPrefix);
+	const limits = await readLimits.bind(this)(
+		account,
+		market,
+		options,
+		errorPrefix
+	);
+
+	if (limits.borrowPaused || limits.shortfall.gt(0) || limits.price.isZero()) {
+		return formatLimit(ethers.constants.Zero, market, options);
+	}
+
+	// The first borrow enters the market, adding the deposits in it to the
+	//     collateral of the account.
+	let liquidity = limits.liquidity;
+	if (!limits.isMember) {
+		liquidity = liquidity.add(
+			limits.supplied
+				.mul(limits.collateralFactor)
+				.div(ethers.constants.WeiPerEther)
+				.mul(limits.price)
+				.div(ethers.constants.WeiPerEther)
+		);
+	}
+
+	let max = liquidity.mul(ethers.constants.WeiPerEther).div(limits.price);
+
+	if (limits.cash.lt(max)) {
+		max = limits.cash;
+	}
+
+	// A borrow cap of 0 means the market has no cap. Total borrows must stay
+	//     under the cap.
+	if (!limits.borrowCap.isZero()) {
+		const underCap = limits.borrowCap.gt(limits.totalBorrows)
+			? limits.borrowCap.sub(limits.totalBorrows).sub(1)
+			: ethers.constants.Zero;
+
+		if (underCap.lt(max)) {
+			max = underCap;
+		}
+	}
+
+	return formatLimit(max, market, options);
+}
+
+/**
+ * Calculates the largest amount of an asset an account can redeem: the
+ *     lowest of its deposits, the cash of the market and, when the market is
+ *     collateral of the account, what its liquidity covers at the oracle price
+ *     and collateral factor. Interest accrued before the redeem is mined can
+ *     lower the limit slightly.
+ *
+ * @param {string} asset A string of the underlying asset or the cToken name
+ *     of the market.
+ * @param {string} account The address of the account.
+ * @param {CallOptions} [options] Call options and Ethers.js overrides for the
+ *     `eth_call`s. Set `mantissa` to get the exact amount, rounded down, to
+ *     pass to `redeem` with the `mantissa` option.
+ *
+ * @returns {number | string} Returns the amount of the underlying asset, 0 if
+ *     the account cannot redeem.
+ *
+ * @example
+ *
+ * ```
+ * const tropykus = new Tropykus('https://public-node.rsk.co');
+ *
+ * (async function () {
+ *   const max = await tropykus.getMaxRedeem(Tropykus.RBTC, '0x123...');
+ *   console.log('Max RBTC redeem', max);
+ * })().catch(console.error);
+ * ```
+ */
+export async function getMaxRedeem(
+	asset: string,
+	account: string,
+	options: CallOptions = {}
+): Promise<number | string> {
+	await netId(this);
+	const errorPrefix = "Compound [getMaxRedeem] | ";
+
+	const market = getMarket(this, asset, errorPrefix);
+	const limits = await readLimits.bind(this)(
+		account,
+		market,
+		options,
+		errorPrefix
+	);
+
+	let max = limits.supplied;
+
+	if (limits.cash.lt(max)) {
+		max = limits.cash;
+	}
+
+	// Deposits that are not collateral can always be redeemed.
+	if (limits.isMember && !limits.collateralFactor.isZero()) {
+		if (limits.shortfall.gt(0) || limits.price.isZero()) {
+			return formatLimit(ethers.constants.Zero, market, options);
+		}
+
+		const covered = limits.liquidity
+			.mul(ethers.constants.WeiPerEther)
+			.div(limits.price)
+			.mul(ethers.constants.WeiPerEther)
+			.div(limits.collateralFactor);
+
+		if (covered.lt(max)) {
+			max = covered;
+		}
+	}
+
+	return formatLimit(max, market, options);
+}
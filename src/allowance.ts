@@ -0,0 +1,197 @@
+/**
+ * @file Allowance
+ * @desc These methods read and manage the ERC-20 allowances that the cToken
+ *     markets need to pull the underlying asset of the user, for supplies and
+ *     repayments.
+ */
+
+import { ethers } from "ethers";
+import * as eth from "./eth";
+import { netId, getMarket, getMarkets } from "./helpers";
+import { abi, decimals } from "./constants";
+import { BigNumber } from "@ethersproject/bignumber/lib/bignumber";
+import { CallOptions, MarketAllowance, TrxResponse } from "./types";
+import { ValidationError } from "./errors";
+
+// Allowances from half of the maximum up are reported as unlimited, as some
+//     tokens decrease even an allowance of the maximum on every transfer.
+const unlimitedThreshold = ethers.constants.MaxUint256.div(2);
+
+/**
+ * Reads the allowances an account granted to every cToken market with an
+ *     ERC-20 underlying asset. Markets of the native asset need no approval
+ *     and are not listed.
+ *
+ * @param {string} account The address of the account.
+ * @param {CallOptions} [options] Call options and Ethers.js overrides for the
+ *     `eth_call`s.
+ *
+ * @returns {MarketAllowance[]} Returns the allowance of each market, in the
+ *     underlying asset, and whether it is unlimited.
+ *
+ * @example
+ *
+ * ```
+ * const tropykus = new Tropykus('https://public-node.rsk.co');
+ *
+ * (async function () {
+ *   const allowances = await tropykus.getAllowances('0x123...');
+ *   allowances
+ *     .filter((a) => a.allowance > 0)
+ *     .forEach((a) => console.log(a.cToken, a.unlimited ? 'unlimited' : a.allowance));
+ * })().catch(console.error);
+ * ```
+ */
+export async function getAllowances(
+	account: string,
+	options: CallOptions = {}
+): Promise<MarketAllowance[]> {
+	await netId(this);
+	const errorPrefix = "Compound [getAllowances] | ";
+
+	if (!ethers.utils.isAddress(account)) {
+		throw new ValidationError(
+			errorPrefix + "Argument `account` must be a valid Ethereum address."
+		);
+	}
+
+	const markets = getMarkets(this).filter((m) => !m.isNative);
+
+	return Promise.all(
+		markets.map(async (market) => {
+			const allowance: BigNumber = await eth.read(
+				market.underlyingAddress,
+				"allowance",
+				[account, market.cTokenAddress],
+				{ ...options, _compoundProvider: this._provider, abi: abi.Erc20 }
+			);
+
+			return {
+				asset: market.underlying,
+				cToken: market.cTokenName,
+				address: market.cTokenAddress,
+				underlyingAddress: market.underlyingAddress,
+				allowance: options.mantissa
+					? allowance.toString()
+					: Number(allowance) / Math.pow(10, decimals[market.underlying]),
+				unlimited: allowance.gte(unlimitedThreshold),
+			};
+		})
+	);
+}
+
+/**
+ * Approves a cToken market to pull the underlying asset of the user, for
+ *     later supplies and repayments.
+ *
+ * @param {string} asset A string of the underlying asset or the cToken name
+ *     of the market.
+ * @param {number | string | BigNumber} amount A string, number, or BigNumber
+ *     object of the amount to approve, or `unlimited` for the maximum. Use
+ *     the `mantissa` boolean in the `options` parameter to indicate if this
+ *     value is scaled up (so there are no decimals) or in its natural scale.
+ * @param {CallOptions} [options] Call options and Ethers.js overrides for the
+ *     transaction.
+ *
+ * @returns {object} Returns an Ethers.js transaction object of the approve
+ *     transaction.
+ *
+ * @example
+ *
+ * ```
+ * const tropykus = new Tropykus(window.ethereum);
+ *
+ * (async function () {
+ *   const trx = await tropykus.approve(Tropykus.DOC, 'unlimited');
+ *   console.log('Ethers.js transaction object', trx);
+ * })().catch(console.error);
+ * ```
+ */
+export async function approve(
+	asset: string,
+	amount: string | number | BigNumber,
+	options: CallOptions = {}
+): Promise<TrxResponse> {
+	await netId(this);
+	const errorPrefix = "Compound [approve] | ";
+
+	const market = getMarket(this, asset, errorPrefix);
+
+	if (market.isNative) {
+		throw new ValidationError(
+			errorPrefix + "Argument `asset` does not need an approval."
+		);
+	}
+
+	if (
+		typeof amount !== "number" &&
+		typeof amount !== "string" &&
+		!ethers.BigNumber.isBigNumber(amount)
+	) {
+		throw new ValidationError(
+			errorPrefix +
+				"Argument `amount` must be a string, number, BigNumber or `unlimited`."
+		);
+	}
+
+	if (amount === "unlimited") {
+		amount = ethers.constants.MaxUint256;
+	} else if (!options.mantissa) {
+		amount = ethers.utils.parseUnits(
+			amount.toString(),
+			decimals[market.underlying]
+		);
+	}
+
+	return eth.trx(
+		market.underlyingAddress,
+		"approve",
+		[market.cTokenAddress, ethers.BigNumber.from(amount.toString())],
+		{ ...options, _compoundProvider: this._provider, abi: abi.Erc20 }
+	);
+}
+
+/**
+ * Revokes the approval of a cToken market, setting its allowance to zero.
+ *
+ * @param {string} asset A string of the underlying asset or the cToken name
+ *     of the market.
+ * @param {CallOptions} [options] Call options and Ethers.js overrides for the
+ *     transaction.
+ *
+ * @returns {object} Returns an Ethers.js transaction object of the approve
+ *     transaction.
+ *
+ * @example
+ *
+ * ```
+ * const tropykus = new Tropykus(window.ethereum);
+ *
+ * (async function () {
+ *   const trx = await tropykus.revokeApproval(Tropykus.DOC);
+ *   console.log('Ethers.js transaction object', trx);
+ * })().catch(console.error);
+ * ```
+ */
+export async function revokeApproval(
+	asset: string,
+	options: CallOptions = {}
+): Promise<TrxResponse> {
+	await netId(this);
+	const errorPrefix = "Compound [revokeApproval] | ";
+
+	const market = getMarket(this, asset, errorPrefix);
+
+	if (market.isNative) {
+		throw new ValidationError(
+			errorPrefix + "Argument `asset` does not need an approval."
+		);
+	}
+
+	return eth.trx(
+		market.underlyingAddress,
+		"approve",
+		[market.cTokenAddress, ethers.constants.Zero],
+		{ ...options, _compoundProvider: this._provider, abi: abi.Erc20 }
+	);
+}
@@ -1,3 +1,5 @@
+import { TropykusError } from "./errors";
+
 const endpoint = (chainId: number) => {
 	if (chainId === 31) return "https://graphql1.testnet.tropykus.com";
 	return "https://graphql1.tropykus.com";
@@ -107,7 +109,7 @@ export const getUserBalance = async (
 	chainId: number
 ): Promise<FindManyUser_balancesType | null> => {
 	const userIdResponse = await getUserId(user_address, chainId);
-	if (!userIdResponse) throw new Error("User not found");
+	if (!userIdResponse) throw new TropykusError("User not found", "USER_NOT_FOUND");
 	const userId = userIdResponse.data.findFirstUsers.id;
 
 	const query = `
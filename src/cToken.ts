@@ -6,7 +6,7 @@
 
 import { ethers } from "ethers";
 import * as eth from "./eth";
-import { netId } from "./helpers";
+import { netId, getMarket, ensureAllowance, readLiquidation } from "./helpers";
 import {
 	constants,
 	address,
@@ -16,8 +16,147 @@ import {
 	cTokens,
 } from "./constants";
 import { BigNumber } from "@ethersproject/bignumber/lib/bignumber";
-import { CallOptions, TrxResponse } from "./types";
+import {
+	CallOptions,
+	MarketInfo,
+	RepayBorrowOptions,
+	SupplyOptions,
+	TrxResponse,
+} from "./types";
 import { getNetNameWithChainId } from "./util";
+import {
+	enterMarkets,
+	getHypotheticalAccountLiquidity,
+	isCollateralEnabled,
+} from "./comptroller";
+import {
+	BorrowCapReachedError,
+	EnterMarketsFailedError,
+	InsufficientCollateralError,
+	MarketNotListedError,
+	PausedMarketError,
+	ProtocolError,
+	ValidationError,
+	decodeFailure,
+} from "./errors";
+
+/**
+ * Checks that the Comptroller allows an action in a market before its
+ *     transaction is sent: the market is listed, the action is not paused by
+ *     the pause guardian and, for borrows, the borrow cap is not reached.
+ *
+ * @hidden
+ *
+ * @param {string} cTokenName The cToken name of the market.
+ * @param {string} action The action: `mint`, `borrow`, `redeem`, `repay` or
+ *     `transfer`.
+ * @param {BigNumber} amount The amount of the action, as a mantissa.
+ * @param {CallOptions} options Call options for every `eth_call`.
+ * @param {string} errorPrefix The prefix of the errors thrown.
+ */
+async function checkMarketAction(
+	cTokenName: string,
+	action: "mint" | "borrow" | "redeem" | "repay" | "transfer",
+	amount: BigNumber,
+	options: CallOptions,
+	errorPrefix: string
+): Promise<void> {
+	const network = getNetNameWithChainId(this._network.id);
+	const comptrollerAddress = address[network].Comptroller;
+	const cTokenAddress = address[network][cTokenName];
+
+	const trxOptions: CallOptions = {
+		...options,
+		_compoundProvider: this._provider,
+		abi: abi.Comptroller,
+	};
+
+	const marketConfig = await eth.read(
+		comptrollerAddress,
+		"markets",
+		[cTokenAddress],
+		trxOptions
+	);
+
+	if (!marketConfig.isListed) {
+		throw new MarketNotListedError(
+			errorPrefix + "Market `" + cTokenName + "` is not listed.",
+			cTokenName
+		);
+	}
+
+	if (action === "mint") {
+		const paused = await eth.read(
+			comptrollerAddress,
+			"mintGuardianPaused",
+			[cTokenAddress],
+			trxOptions
+		);
+
+		if (paused) {
+			throw new PausedMarketError(
+				errorPrefix + "Supplying to market `" + cTokenName + "` is paused.",
+				cTokenName,
+				action
+			);
+		}
+	}
+
+	if (action === "transfer") {
+		// Transfers are paused for every market at once.
+		const paused = await eth.read(
+			comptrollerAddress,
+			"transferGuardianPaused",
+			[],
+			trxOptions
+		);
+
+		if (paused) {
+			throw new PausedMarketError(
+				errorPrefix + "Transfers of market `" + cTokenName + "` are paused.",
+				cTokenName,
+				action
+			);
+		}
+	}
+
+	if (action === "borrow") {
+		const [paused, borrowCap, totalBorrows] = await Promise.all([
+			eth.read(
+				comptrollerAddress,
+				"borrowGuardianPaused",
+				[cTokenAddress],
+				trxOptions
+			),
+			eth.read(comptrollerAddress, "borrowCaps", [cTokenAddress], trxOptions),
+			eth.read(cTokenAddress, "totalBorrows", [], {
+				...trxOptions,
+				abi: abi.cErc20,
+			}),
+		]);
+
+		if (paused) {
+			throw new PausedMarketError(
+				errorPrefix + "Borrowing from market `" + cTokenName + "` is paused.",
+				cTokenName,
+				action
+			);
+		}
+
+		// A borrow cap of 0 means the market has no cap. Total borrows must stay
+		//     under the cap.
+		if (!borrowCap.isZero() && totalBorrows.add(amount).gte(borrowCap)) {
+			const underlyingDecimals = decimals[cTokenName.slice(1)];
+
+			throw new BorrowCapReachedError(
+				errorPrefix + "Borrow cap of market `" + cTokenName + "` reached.",
+				cTokenName,
+				Number(borrowCap) / Math.pow(10, underlyingDecimals),
+				Number(totalBorrows) / Math.pow(10, underlyingDecimals)
+			);
+		}
+	}
+}
 
 /**
  * Retrieves the borrow balance of a user for a specific asset.
@@ -41,11 +180,13 @@ export async function getUserBorrows(
 		address[getNetNameWithChainId(this._network.id)][cTokenName];
 
 	if (!cTokenAddress || !underlyings.includes(asset)) {
-		throw Error(errorPrefix + "Argument `asset` cannot be borrowed.");
+		throw new ValidationError(
+			errorPrefix + "Argument `asset` cannot be borrowed."
+		);
 	}
 
 	if (!ethers.utils.isAddress(userAddress)) {
-		throw Error(
+		throw new ValidationError(
 			errorPrefix + "Argument `userAddress` must be a valid Ethereum address."
 		);
 	}
@@ -78,12 +219,21 @@ export async function getUserBorrows(
  *     are no decimals) or in its natural scale.
  * @param {boolean} noApprove Explicitly prevent this method from attempting an
  *     ERC-20 `approve` transaction prior to sending the `mint` transaction.
- * @param {CallOptions} [options] Call options and Ethers.js overrides for the
- *     transaction. A passed `gasLimit` will be used in both the `approve` (if
- *     not supressed) and `mint` transactions.
+ * @param {SupplyOptions} [options] Call options and Ethers.js overrides for
+ *     the transaction. A passed `gasLimit` will be used in both the `approve`
+ *     (if not supressed) and `mint` transactions. Set `asCollateral` to enter
+ *     the market with an `enterMarkets` transaction sent right after the
+ *     `mint`, if the user has not entered it yet. Set `approvalStrategy` to
+ *     `unlimited` to approve the maximum instead of the amount when the
+ *     allowance is not enough, or to `none` to never approve. Pass `onStep`
+ *     to be called back as the approval is requested, sent and mined, as the
+ *     `mint` transaction is sent and as the `enterMarkets` transaction is
+ *     sent.
  *
  * @returns {object} Returns an Ethers.js transaction object of the supply
- *     transaction.
+ *     transaction. With `asCollateral`, rejects with an
+ *     `EnterMarketsFailedError` carrying the supply transaction as `mintTx`
+ *     if the `enterMarkets` transaction fails after it was sent.
  *
  * @example
  *
@@ -105,7 +255,7 @@ export async function getUserBorrows(
 export async function supply(
 	asset: string,
 	amount: string | number | BigNumber,
-	options: CallOptions = {}
+	options: SupplyOptions = {}
 ): Promise<TrxResponse> {
 	await netId(this);
 	const errorPrefix = "Compound [supply] | ";
@@ -116,7 +266,9 @@ export async function supply(
 		address[getNetNameWithChainId(this._network.id)][cTokenName];
 
 	if (!cTokenAddress || !underlyings.includes(asset)) {
-		throw Error(errorPrefix + "Argument `asset` cannot be supplied.");
+		throw new ValidationError(
+			errorPrefix + "Argument `asset` cannot be supplied."
+		);
 	}
 
 	if (
@@ -124,7 +276,7 @@ export async function supply(
 		typeof amount !== "string" &&
 		!ethers.BigNumber.isBigNumber(amount)
 	) {
-		throw Error(
+		throw new ValidationError(
 			errorPrefix + "Argument `amount` must be a string, number, or BigNumber."
 		);
 	}
@@ -150,6 +302,14 @@ export async function supply(
 
 	options._compoundProvider = this._provider;
 
+	await checkMarketAction.bind(this)(
+		cTokenName,
+		"mint",
+		amount,
+		options,
+		errorPrefix
+	);
+
 	const borrowBalance = await eth.read(
 		cTokenAddress,
 		"borrowBalanceStored",
@@ -158,31 +318,26 @@ export async function supply(
 	);
 
 	if (borrowBalance.gt(0))
-		throw Error(errorPrefix + "User has outstanding borrows");
-
-	if (cTokenName !== constants.cETH && cTokenName !== constants.cRBTC) {
-		const underlyingAddress =
-			address[getNetNameWithChainId(this._network.id)][asset];
-		// Check allowance
-		const allowance = await eth.read(
-			underlyingAddress,
-			"allowance",
-			[userAddress, cTokenAddress],
-			options
+		throw new ProtocolError(
+			errorPrefix + "User has outstanding borrows",
+			"OUTSTANDING_BORROWS"
 		);
 
-		const notEnough = allowance.lt(amount);
+	const enterMarket =
+		options.asCollateral &&
+		!(await isCollateralEnabled.bind(this)(userAddress, cTokenName));
 
-		if (notEnough) {
-			// ERC-20 approve transaction
-			const approveTx = await eth.trx(
-				underlyingAddress,
-				"approve",
-				[cTokenAddress, amount],
-				options
-			);
-			await approveTx.wait();
-		}
+	if (cTokenName !== constants.cETH && cTokenName !== constants.cRBTC) {
+		await ensureAllowance(
+			this,
+			getMarket(this, cTokenName, errorPrefix),
+			userAddress,
+			amount,
+			options.approvalStrategy || "exact",
+			options,
+			errorPrefix,
+			options.onStep
+		);
 	}
 
 	const parameters = [];
@@ -192,7 +347,38 @@ export async function supply(
 		parameters.push(amount);
 	}
 
-	return eth.trx(cTokenAddress, "mint", parameters, options);
+	const trx = await eth.trx(cTokenAddress, "mint", parameters, options);
+
+	if (options.onStep) {
+		options.onStep("transactionSent", trx);
+	}
+
+	// The market is entered after the `mint` is sent, so a supply that fails
+	//     before it does not leave the user in the market. Only the gas
+	//     overrides are passed on, the `value` is for the `mint` alone.
+	if (enterMarket) {
+		let enterTx;
+		try {
+			enterTx = await enterMarkets.bind(this)(cTokenName, {
+				gasPrice: options.gasPrice,
+				gasLimit: options.gasLimit,
+				nonce: options.nonce === undefined ? undefined : options.nonce + 1,
+			});
+		} catch (error) {
+			throw new EnterMarketsFailedError(
+				errorPrefix +
+					"The supply was sent but entering the market failed. See `mintTx`.",
+				trx,
+				error
+			);
+		}
+
+		if (options.onStep) {
+			options.onStep("enterMarketsSent", enterTx);
+		}
+	}
+
+	return trx;
 }
 
 /**
@@ -233,7 +419,9 @@ export async function redeem(
 	const errorPrefix = "Compound [redeem] | ";
 
 	if (typeof asset !== "string" || asset.length < 1) {
-		throw Error(errorPrefix + "Argument `asset` must be a non-empty string.");
+		throw new ValidationError(
+			errorPrefix + "Argument `asset` must be a non-empty string."
+		);
 	}
 
 	const assetIsCToken = asset[0] === "c";
@@ -245,7 +433,9 @@ export async function redeem(
 	const underlyingName = assetIsCToken ? asset.slice(1, asset.length) : asset;
 
 	if (!cTokens.includes(cTokenName) || !underlyings.includes(underlyingName)) {
-		throw Error(errorPrefix + "Argument `asset` is not supported.");
+		throw new ValidationError(
+			errorPrefix + "Argument `asset` is not supported."
+		);
 	}
 
 	if (
@@ -253,7 +443,7 @@ export async function redeem(
 		typeof amount !== "string" &&
 		!ethers.BigNumber.isBigNumber(amount)
 	) {
-		throw Error(
+		throw new ValidationError(
 			errorPrefix + "Argument `amount` must be a string, number, or BigNumber."
 		);
 	}
@@ -270,6 +460,15 @@ export async function redeem(
 		_compoundProvider: this._provider,
 		abi: cTokenName === constants.cETH ? abi.cEther : abi.cErc20,
 	};
+
+	await checkMarketAction.bind(this)(
+		cTokenName,
+		"redeem",
+		amount,
+		trxOptions,
+		errorPrefix
+	);
+
 	const parameters = [amount];
 	let method;
 	let userAddress = this._provider.address;
@@ -287,7 +486,10 @@ export async function redeem(
 			trxOptions
 		);
 		if (amount.gt(cTokenBalance))
-			throw Error(errorPrefix + "Trying to redeem more than supplied");
+			throw new ProtocolError(
+				errorPrefix + "Trying to redeem more than supplied",
+				"INSUFFICIENT_BALANCE"
+			);
 	} else {
 		method = "redeemUnderlying";
 		const underlyingBalance = await eth.read(
@@ -297,9 +499,41 @@ export async function redeem(
 			trxOptions
 		);
 		if (amount.gt(underlyingBalance))
-			throw Error(errorPrefix + "Trying to redeem more than supplied");
+			throw new ProtocolError(
+				errorPrefix + "Trying to redeem more than supplied",
+				"INSUFFICIENT_BALANCE"
+			);
+	}
+
+	// The Comptroller checks the liquidity in cTokens. redeemUnderlying
+	//     truncates the cTokens it burns, so rounding up here is a safe
+	//     over-estimate.
+	let redeemTokens = amount;
+	if (!assetIsCToken) {
+		const exchangeRate = await eth.read(
+			cTokenAddress,
+			"exchangeRateStored",
+			[],
+			trxOptions
+		);
+		redeemTokens = amount
+			.mul(ethers.constants.WeiPerEther)
+			.add(exchangeRate.sub(1))
+			.div(exchangeRate);
 	}
 
+	const hypothetical = await getHypotheticalAccountLiquidity.bind(this)(
+		userAddress,
+		cTokenName,
+		redeemTokens,
+		0,
+		{ ...options, mantissa: true }
+	);
+	if (hypothetical.shortfall > 0)
+		throw new InsufficientCollateralError(
+			errorPrefix + "Insufficient collateral"
+		);
+
 	return eth.trx(cTokenAddress, method, parameters, trxOptions);
 }
 
@@ -351,7 +585,9 @@ export async function borrow(
 		address[getNetNameWithChainId(this._network.id)][cTokenName];
 
 	if (!cTokenAddress || !underlyings.includes(asset)) {
-		throw Error(errorPrefix + "Argument `asset` cannot be borrowed.");
+		throw new ValidationError(
+			errorPrefix + "Argument `asset` cannot be borrowed."
+		);
 	}
 
 	if (
@@ -359,7 +595,7 @@ export async function borrow(
 		typeof amount !== "string" &&
 		!ethers.BigNumber.isBigNumber(amount)
 	) {
-		throw Error(
+		throw new ValidationError(
 			errorPrefix + "Argument `amount` must be a string, number, or BigNumber."
 		);
 	}
@@ -377,6 +613,14 @@ export async function borrow(
 		userAddress = await this._provider.getAddress();
 	}
 
+	await checkMarketAction.bind(this)(
+		cTokenName,
+		"borrow",
+		amount,
+		options,
+		errorPrefix
+	);
+
 	const comptrollerAddress =
 		address[getNetNameWithChainId(this._network.id)].Comptroller;
 
@@ -393,9 +637,22 @@ export async function borrow(
 		compCallOptions
 	);
 	if (accountLiquidity[2].gt(0))
-		throw Error(errorPrefix + "User is in liquidation zone");
-	if (accountLiquidity[1].lt(amount))
-		throw Error(errorPrefix + "Insufficient collateral");
+		throw new InsufficientCollateralError(
+			errorPrefix + "User is in liquidation zone",
+			"LIQUIDATION_ZONE"
+		);
+
+	const hypothetical = await getHypotheticalAccountLiquidity.bind(this)(
+		userAddress,
+		cTokenName,
+		0,
+		amount,
+		{ ...options, mantissa: true }
+	);
+	if (hypothetical.shortfall > 0)
+		throw new InsufficientCollateralError(
+			errorPrefix + "Insufficient collateral"
+		);
 
 	const trxOptions: CallOptions = {
 		...options,
@@ -423,9 +680,13 @@ export async function borrow(
  * @param {boolean} noApprove Explicitly prevent this method from attempting an
  *     ERC-20 `approve` transaction prior to sending the subsequent repayment
  *     transaction.
- * @param {CallOptions} [options] Call options and Ethers.js overrides for the
- *     transaction. A passed `gasLimit` will be used in both the `approve` (if
- *     not supressed) and `repayBorrow` or `repayBorrowBehalf` transactions.
+ * @param {RepayBorrowOptions} [options] Call options and Ethers.js overrides
+ *     for the transaction. A passed `gasLimit` will be used in both the
+ *     `approve` (if not supressed) and `repayBorrow` or `repayBorrowBehalf`
+ *     transactions. Set `approvalStrategy` to `unlimited` to approve the
+ *     maximum instead of the amount when the allowance is not enough, or to
+ *     `none` to never approve. Pass `onStep` to be called back as the
+ *     approval is requested, sent and mined, and as the repayment is sent.
  *
  * @returns {object} Returns an Ethers.js transaction object of the repayBorrow
  *     or repayBorrowBehalf transaction.
@@ -451,7 +712,7 @@ export async function repayBorrow(
 	asset: string,
 	amount: string | number | BigNumber,
 	borrower: string,
-	options: CallOptions = {}
+	options: RepayBorrowOptions = {}
 ): Promise<TrxResponse> {
 	await netId(this);
 	const errorPrefix = "Compound [repayBorrow] | ";
@@ -461,7 +722,9 @@ export async function repayBorrow(
 		address[getNetNameWithChainId(this._network.id)][cTokenName];
 
 	if (!cTokenAddress || !underlyings.includes(asset)) {
-		throw Error(errorPrefix + "Argument `asset` is not supported.");
+		throw new ValidationError(
+			errorPrefix + "Argument `asset` is not supported."
+		);
 	}
 
 	if (
@@ -469,7 +732,7 @@ export async function repayBorrow(
 		typeof amount !== "string" &&
 		!ethers.BigNumber.isBigNumber(amount)
 	) {
-		throw Error(
+		throw new ValidationError(
 			errorPrefix + "Argument `amount` must be a string, number, or BigNumber."
 		);
 	}
@@ -478,7 +741,7 @@ export async function repayBorrow(
 		? "repayBorrowBehalf"
 		: "repayBorrow";
 	if (borrower && method === "repayBorrow") {
-		throw Error(errorPrefix + "Invalid `borrower` address.");
+		throw new ValidationError(errorPrefix + "Invalid `borrower` address.");
 	}
 
 	let userAddress = this._provider.address;
@@ -500,6 +763,14 @@ export async function repayBorrow(
 		abi: abi.cErc20,
 	};
 
+	await checkMarketAction.bind(this)(
+		cTokenName,
+		"repay",
+		amount,
+		trxOptions,
+		errorPrefix
+	);
+
 	const borrowBalance = await eth.read(
 		cTokenAddress,
 		"borrowBalanceStored",
@@ -523,29 +794,473 @@ export async function repayBorrow(
 	}
 
 	if (cTokenName !== constants.cETH && cTokenName !== constants.cRBTC) {
-		const underlyingAddress =
-			address[getNetNameWithChainId(this._network.id)][asset];
-		// Check allowance
+		await ensureAllowance(
+			this,
+			getMarket(this, cTokenName, errorPrefix),
+			userAddress,
+			approvalValue,
+			options.approvalStrategy || "exact",
+			trxOptions,
+			errorPrefix,
+			options.onStep
+		);
+	}
+
+	const trx = await eth.trx(cTokenAddress, method, parameters, trxOptions);
+
+	if (options.onStep) {
+		options.onStep("transactionSent", trx);
+	}
+
+	return trx;
+}
+
+/**
+ * Liquidates an account with a shortfall: repays part of one of its borrows
+ *     and seizes some of its collateral in return, in cTokens, including the
+ *     liquidation incentive. See `quoteLiquidation` for the amounts.
+ *
+ * @param {string} borrower The address of the account to liquidate.
+ * @param {string} repayAsset A string of the underlying asset or the cToken
+ *     name of the borrow to repay.
+ * @param {number | string | BigNumber} amount A string, number, or BigNumber
+ *     object of the amount of the borrow to repay, up to the close factor.
+ *     Use the `mantissa` boolean in the `options` parameter to indicate if
+ *     this value is scaled up (so there are no decimals) or in its natural
+ *     scale.
+ * @param {string} collateralAsset A string of the underlying asset or the
+ *     cToken name of the collateral to seize.
+ * @param {RepayBorrowOptions} [options] Call options and Ethers.js overrides
+ *     for the transaction. A passed `gasLimit` will be used in both the
+ *     `approve` (if needed) and `liquidateBorrow` transactions. Set
+ *     `approvalStrategy` to `unlimited` to approve the maximum instead of the
+ *     amount when the allowance is not enough, or to `none` to never approve.
+ *     Pass `onStep` to be called back as the approval is requested, sent and
+ *     mined, and as the liquidation is sent.
+ *
+ * @returns {object} Returns an Ethers.js transaction object of the
+ *     liquidateBorrow transaction.
+ *
+ * @example
+ *
+ * ```
+ * const tropykus = new Tropykus(window.ethereum);
+ *
+ * (async function() {
+ *
+ *   console.log('Liquidating a DOC borrow...');
+ *   const trx = await tropykus.liquidateBorrow(
+ *     '0x123...', Tropykus.DOC, 100, Tropykus.RBTC, { gasLimit: 800000 }
+ *   );
+ *
+ *   console.log('Ethers.js transaction object', trx);
+ *
+ * })().catch(console.error);
+ * ```
+ */
+export async function liquidateBorrow(
+	borrower: string,
+	repayAsset: string,
+	amount: string | number | BigNumber,
+	collateralAsset: string,
+	options: RepayBorrowOptions = {}
+): Promise<TrxResponse> {
+	await netId(this);
+	const errorPrefix = "Compound [liquidateBorrow] | ";
+
+	if (!ethers.utils.isAddress(borrower)) {
+		throw new ValidationError(
+			errorPrefix + "Argument `borrower` must be a valid Ethereum address."
+		);
+	}
+
+	const repayMarket = getMarket(this, repayAsset, errorPrefix);
+	const collateralMarket = getMarket(this, collateralAsset, errorPrefix);
+
+	if (
+		typeof amount !== "number" &&
+		typeof amount !== "string" &&
+		!ethers.BigNumber.isBigNumber(amount)
+	) {
+		throw new ValidationError(
+			errorPrefix + "Argument `amount` must be a string, number, or BigNumber."
+		);
+	}
+
+	if (!options.mantissa) {
+		amount = amount.toString();
+		amount = ethers.utils.parseUnits(amount, decimals[repayMarket.underlying]);
+	}
+
+	amount = ethers.BigNumber.from(amount.toString());
+
+	let userAddress = this._provider.address;
+
+	if (!userAddress && this._provider.getAddress) {
+		userAddress = await this._provider.getAddress();
+	}
+
+	if (userAddress && userAddress.toLowerCase() === borrower.toLowerCase()) {
+		throw new ValidationError(
+			errorPrefix + "User cannot liquidate its own borrow"
+		);
+	}
+
+	const [liquidation, collateralBalance] = await Promise.all([
+		readLiquidation(
+			this,
+			borrower,
+			repayMarket,
+			collateralMarket,
+			amount,
+			options,
+			errorPrefix
+		),
+		eth.read(collateralMarket.cTokenAddress, "balanceOf", [borrower], {
+			...options,
+			_compoundProvider: this._provider,
+			abi: collateralMarket.abi,
+		}),
+	]);
+
+	if (liquidation.shortfall.isZero())
+		throw new ProtocolError(
+			errorPrefix + "Borrower is not in liquidation zone",
+			"INSUFFICIENT_SHORTFALL"
+		);
+	if (amount.gt(liquidation.maxRepayAmount))
+		throw new ProtocolError(
+			errorPrefix + "Trying to repay more than the close factor",
+			"TOO_MUCH_REPAY"
+		);
+	if (liquidation.seizeTokens.gt(collateralBalance))
+		throw new ProtocolError(
+			errorPrefix + "Not enough collateral to seize",
+			"TOO_MUCH_SEIZE"
+		);
+
+	const trxOptions: CallOptions = {
+		...options,
+		_compoundProvider: this._provider,
+		abi: repayMarket.abi,
+	};
+	const parameters: (string | BigNumber)[] = [borrower];
+
+	if (repayMarket.isNative) {
+		trxOptions.value = amount;
+	} else {
+		parameters.push(amount);
+
+		await ensureAllowance(
+			this,
+			repayMarket,
+			userAddress,
+			amount,
+			options.approvalStrategy || "exact",
+			trxOptions,
+			errorPrefix,
+			options.onStep
+		);
+	}
+
+	parameters.push(collateralMarket.cTokenAddress);
+
+	const trx = await eth.trx(
+		repayMarket.cTokenAddress,
+		"liquidateBorrow",
+		parameters,
+		trxOptions
+	);
+
+	if (options.onStep) {
+		options.onStep("transactionSent", trx);
+	}
+
+	return trx;
+}
+
+/**
+ * Checks that a transfer of cTokens would succeed before its transaction is
+ *     sent: transfers are not paused, the source holds the cTokens, the
+ *     spender is allowed to move them and the Comptroller allows it, which it
+ *     does not if the source would be left with a shortfall.
+ *
+ * @hidden
+ *
+ * @param {MarketInfo} market The market of the cTokens.
+ * @param {string} spender The address sending the transaction.
+ * @param {string} src The address the cTokens are moved from.
+ * @param {string} dst The address the cTokens are moved to.
+ * @param {BigNumber} amount The amount of cTokens, as a mantissa.
+ * @param {CallOptions} options Call options for every `eth_call`.
+ * @param {string} errorPrefix The prefix of the errors thrown.
+ */
+async function checkTransfer(
+	market: MarketInfo,
+	spender: string,
+	src: string,
+	dst: string,
+	amount: BigNumber,
+	options: CallOptions,
+	errorPrefix: string
+): Promise<void> {
+	await checkMarketAction.bind(this)(
+		market.cTokenName,
+		"transfer",
+		amount,
+		options,
+		errorPrefix
+	);
+
+	const cTokenOptions: CallOptions = {
+		...options,
+		_compoundProvider: this._provider,
+		abi: market.abi,
+	};
+
+	const balance = await eth.read(
+		market.cTokenAddress,
+		"balanceOf",
+		[src],
+		cTokenOptions
+	);
+
+	if (amount.gt(balance))
+		throw new ProtocolError(
+			errorPrefix + "Trying to transfer more than supplied",
+			"INSUFFICIENT_BALANCE"
+		);
+
+	// The cToken does not check the allowance of a holder moving its own
+	//     cTokens.
+	if (spender.toLowerCase() !== src.toLowerCase()) {
 		const allowance = await eth.read(
-			underlyingAddress,
+			market.cTokenAddress,
 			"allowance",
-			[userAddress, cTokenAddress],
-			trxOptions
+			[src, spender],
+			cTokenOptions
 		);
 
-		const notEnough = allowance.lt(approvalValue);
+		if (amount.gt(allowance))
+			throw new ProtocolError(
+				errorPrefix + "Trying to transfer more than allowed",
+				"INSUFFICIENT_ALLOWANCE"
+			);
+	}
+
+	const comptrollerAddress =
+		address[getNetNameWithChainId(this._network.id)].Comptroller;
 
-		if (notEnough) {
-			// ERC-20 approve transaction
-			const approvalTx = await eth.trx(
-				underlyingAddress,
-				"approve",
-				[cTokenAddress, approvalValue],
-				trxOptions
+	const error = await eth.read(
+		comptrollerAddress,
+		"transferAllowed",
+		[market.cTokenAddress, src, dst, amount],
+		{ ...cTokenOptions, abi: abi.Comptroller }
+	);
+
+	if (!error.isZero()) {
+		const failure = decodeFailure("comptroller", Number(error));
+
+		if (failure.errorName === "INSUFFICIENT_LIQUIDITY") {
+			throw new InsufficientCollateralError(
+				errorPrefix + "Insufficient collateral"
 			);
-			approvalTx.wait();
 		}
+
+		throw new ProtocolError(
+			errorPrefix + "Comptroller rejected the transfer. " + failure.description,
+			failure.errorName
+		);
 	}
+}
 
-	return eth.trx(cTokenAddress, method, parameters, trxOptions);
+/**
+ * Transfers cTokens of the user to another address. The deposit keeps
+ *     earning interest for its new holder, without redeeming and supplying it
+ *     again. The transfer is rejected before it is sent if it would leave the
+ *     user with a shortfall.
+ *
+ * @param {string} market A string of the underlying asset or the cToken name
+ *     of the market.
+ * @param {string} to The address to transfer the cTokens to.
+ * @param {number | string | BigNumber} amount A string, number, or BigNumber
+ *     object of the amount of cTokens to transfer. Use the `mantissa` boolean
+ *     in the `options` parameter to indicate if this value is scaled up (so
+ *     there are no decimals) or in its natural scale.
+ * @param {CallOptions} [options] Call options and Ethers.js overrides for the
+ *     transaction.
+ *
+ * @returns {object} Returns an Ethers.js transaction object of the transfer
+ *     transaction.
+ *
+ * @example
+ *
+ * ```
+ * const tropykus = new Tropykus(window.ethereum);
+ *
+ * (async function() {
+ *
+ *   console.log('Transferring 10 kDOC...');
+ *   const trx = await tropykus.transferKTokens(Tropykus.kDOC, '0x123...', 10);
+ *
+ *   console.log('Ethers.js transaction object', trx);
+ *
+ * })().catch(console.error);
+ * ```
+ */
+export async function transferKTokens(
+	market: string,
+	to: string,
+	amount: string | number | BigNumber,
+	options: CallOptions = {}
+): Promise<TrxResponse> {
+	await netId(this);
+	const errorPrefix = "Compound [transferKTokens] | ";
+
+	const marketInfo = getMarket(this, market, errorPrefix);
+
+	if (!ethers.utils.isAddress(to)) {
+		throw new ValidationError(
+			errorPrefix + "Argument `to` must be a valid Ethereum address."
+		);
+	}
+
+	if (
+		typeof amount !== "number" &&
+		typeof amount !== "string" &&
+		!ethers.BigNumber.isBigNumber(amount)
+	) {
+		throw new ValidationError(
+			errorPrefix + "Argument `amount` must be a string, number, or BigNumber."
+		);
+	}
+
+	if (!options.mantissa) {
+		amount = amount.toString();
+		amount = ethers.utils.parseUnits(amount, decimals[marketInfo.cTokenName]);
+	}
+
+	amount = ethers.BigNumber.from(amount.toString());
+
+	let userAddress = this._provider.address;
+
+	if (!userAddress && this._provider.getAddress) {
+		userAddress = await this._provider.getAddress();
+	}
+
+	await checkTransfer.bind(this)(
+		marketInfo,
+		userAddress,
+		userAddress,
+		to,
+		amount,
+		options,
+		errorPrefix
+	);
+
+	return eth.trx(marketInfo.cTokenAddress, "transfer", [to, amount], {
+		...options,
+		_compoundProvider: this._provider,
+		abi: marketInfo.abi,
+	});
+}
+
+/**
+ * Transfers cTokens from an address that approved the user to another
+ *     address, like `transferKTokens`. The source must have approved the user
+ *     with the `approve` method of the cToken.
+ *
+ * @param {string} market A string of the underlying asset or the cToken name
+ *     of the market.
+ * @param {string} from The address to transfer the cTokens from.
+ * @param {string} to The address to transfer the cTokens to.
+ * @param {number | string | BigNumber} amount A string, number, or BigNumber
+ *     object of the amount of cTokens to transfer. Use the `mantissa` boolean
+ *     in the `options` parameter to indicate if this value is scaled up (so
+ *     there are no decimals) or in its natural scale.
+ * @param {CallOptions} [options] Call options and Ethers.js overrides for the
+ *     transaction.
+ *
+ * @returns {object} Returns an Ethers.js transaction object of the
+ *     transferFrom transaction.
+ *
+ * @example
+ *
+ * ```
+ * const tropykus = new Tropykus(window.ethereum);
+ *
+ * (async function() {
+ *
+ *   console.log('Moving 10 kDOC between sub-wallets...');
+ *   const trx = await tropykus.transferKTokensFrom(
+ *     Tropykus.kDOC, '0xabc...', '0x123...', 10
+ *   );
+ *
+ *   console.log('Ethers.js transaction object', trx);
+ *
+ * })().catch(console.error);
+ * ```
+ */
+export async function transferKTokensFrom(
+	market: string,
+	from: string,
+	to: string,
+	amount: string | number | BigNumber,
+	options: CallOptions = {}
+): Promise<TrxResponse> {
+	await netId(this);
+	const errorPrefix = "Compound [transferKTokensFrom] | ";
+
+	const marketInfo = getMarket(this, market, errorPrefix);
+
+	if (!ethers.utils.isAddress(from)) {
+		throw new ValidationError(
+			errorPrefix + "Argument `from` must be a valid Ethereum address."
+		);
+	}
+
+	if (!ethers.utils.isAddress(to)) {
+		throw new ValidationError(
+			errorPrefix + "Argument `to` must be a valid Ethereum address."
+		);
+	}
+
+	if (
+		typeof amount !== "number" &&
+		typeof amount !== "string" &&
+		!ethers.BigNumber.isBigNumber(amount)
+	) {
+		throw new ValidationError(
+			errorPrefix + "Argument `amount` must be a string, number, or BigNumber."
+		);
+	}
+
+	if (!options.mantissa) {
+		amount = amount.toString();
+		amount = ethers.utils.parseUnits(amount, decimals[marketInfo.cTokenName]);
+	}
+
+	amount = ethers.BigNumber.from(amount.toString());
+
+	let userAddress = this._provider.address;
+
+	if (!userAddress && this._provider.getAddress) {
+		userAddress = await this._provider.getAddress();
+	}
+
+	await checkTransfer.bind(this)(
+		marketInfo,
+		userAddress,
+		from,
+		to,
+		amount,
+		options,
+		errorPrefix
+	);
+
+	return eth.trx(marketInfo.cTokenAddress, "transferFrom", [from, to, amount], {
+		...options,
+		_compoundProvider: this._provider,
+		abi: marketInfo.abi,
+	});
 }
@@ -17,6 +17,7 @@ import {
   DelegateSignatureMessage,
   Provider,
 } from './types';
+import { ValidationError } from './errors';
 
 /**
  * Get the balance of COMP tokens held by an address.
@@ -47,13 +48,13 @@ export async function getCompBalance(
   const errorPrefix = 'Compound [getCompBalance] | ';
 
   if (typeof _address !== 'string') {
-    throw Error(errorPrefix + 'Argument `_address` must be a string.');
+    throw new ValidationError(errorPrefix + 'Argument `_address` must be a string.');
   }
 
   try {
     _address = toChecksumAddress(_address);
   } catch(e) {
-    throw Error(errorPrefix + 'Argument `_address` must be a valid Ethereum address.');
+    throw new ValidationError(errorPrefix + 'Argument `_address` must be a valid Ethereum address.');
   }
 
   const compAddress = address[net.name].COMP;
@@ -96,13 +97,13 @@ export async function getCompAccrued(
   const errorPrefix = 'Compound [getCompAccrued] | ';
 
   if (typeof _address !== 'string') {
-    throw Error(errorPrefix + 'Argument `_address` must be a string.');
+    throw new ValidationError(errorPrefix + 'Argument `_address` must be a string.');
   }
 
   try {
     _address = toChecksumAddress(_address);
   } catch(e) {
-    throw Error(errorPrefix + 'Argument `_address` must be a valid Ethereum address.');
+    throw new ValidationError(errorPrefix + 'Argument `_address` must be a valid Ethereum address.');
   }
 
   const lensAddress = address[net.name].CompoundLens;
@@ -203,13 +204,13 @@ export async function delegate(
   const errorPrefix = 'Compound [delegate] | ';
 
   if (typeof _address !== 'string') {
-    throw Error(errorPrefix + 'Argument `_address` must be a string.');
+    throw new ValidationError(errorPrefix + 'Argument `_address` must be a string.');
   }
 
   try {
     _address = toChecksumAddress(_address);
   } catch(e) {
-    throw Error(errorPrefix + 'Argument `_address` must be a valid Ethereum address.');
+    throw new ValidationError(errorPrefix + 'Argument `_address` must be a valid Ethereum address.');
   }
 
   const compAddress = address[this._network.name].COMP;
@@ -274,21 +275,21 @@ export async function delegateBySig(
   const errorPrefix = 'Compound [delegateBySig] | ';
 
   if (typeof _address !== 'string') {
-    throw Error(errorPrefix + 'Argument `_address` must be a string.');
+    throw new ValidationError(errorPrefix + 'Argument `_address` must be a string.');
   }
 
   try {
     _address = toChecksumAddress(_address);
   } catch(e) {
-    throw Error(errorPrefix + 'Argument `_address` must be a valid Ethereum address.');
+    throw new ValidationError(errorPrefix + 'Argument `_address` must be a valid Ethereum address.');
   }
 
   if (typeof nonce !== 'number') {
-    throw Error(errorPrefix + 'Argument `nonce` must be an integer.');
+    throw new ValidationError(errorPrefix + 'Argument `nonce` must be an integer.');
   }
 
   if (typeof expiry !== 'number') {
-    throw Error(errorPrefix + 'Argument `expiry` must be an integer.');
+    throw new ValidationError(errorPrefix + 'Argument `expiry` must be an integer.');
   }
 
   if (
@@ -297,7 +298,7 @@ export async function delegateBySig(
     !signature.r ||
     !signature.s
   ) {
-    throw Error(errorPrefix + 'Argument `signature` must be an object that ' + 
+    throw new ValidationError(errorPrefix + 'Argument `signature` must be an object that ' + 
       'contains the v, r, and s pieces of an EIP-712 signature.');
   }
 
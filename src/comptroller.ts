@@ -4,11 +4,30 @@
  *     contract. Methods like `claimComp` are in the Governance/COMP section.
  */
 
+import { ethers } from "ethers";
 import * as eth from "./eth";
-import { netId } from "./helpers";
-import { address, abi, cTokens } from "./constants";
-import { CallOptions, TrxResponse } from "./types";
+import {
+	netId,
+	getMarket,
+	getMarkets,
+	getUnderlyingPrice,
+	readLiquidation,
+} from "./helpers";
+import { address, abi, cTokens, decimals } from "./constants";
+import { BigNumber } from "@ethersproject/bignumber/lib/bignumber";
+import {
+	CallOptions,
+	LiquidationQuote,
+	MarketConfig,
+	TrxResponse,
+} from "./types";
 import { getNetNameWithChainId } from "./util";
+import {
+	decodeFailure,
+	InsufficientCollateralError,
+	ProtocolError,
+	ValidationError,
+} from "./errors";
 
 type AccountLiquidty = {
 	error: number;
@@ -24,7 +43,9 @@ export async function getAccountLiquidity(
 	const errorPrefix = "Compound [getAccountLiquidity] | ";
 
 	if (typeof account !== "string") {
-		throw Error(errorPrefix + "Argument `account` must be a string.");
+		throw new ValidationError(
+			errorPrefix + "Argument `account` must be a string."
+		);
 	}
 
 	const comptrollerAddress =
@@ -51,6 +72,378 @@ export async function getAccountLiquidity(
 	};
 }
 
+/**
+ * Calculates the liquidity of an account as if it redeemed `redeemTokens` of
+ *     a market and borrowed `borrowAmount` from it. This is the check the
+ *     Comptroller runs before allowing a redeem, borrow or market exit.
+ *
+ * The Comptroller only accounts for the markets the account has entered, and
+ *     entering a market is done automatically on the first borrow. So, when
+ *     the account has not entered the market it borrows from, its deposits in
+ *     the market are added as collateral and the value of `borrowAmount` at
+ *     the oracle price is deducted from the liquidity here, like
+ *     `getMaxBorrow` does.
+ *
+ * @param {string} account The address of the account.
+ * @param {string} market A string of the underlying asset or the cToken name
+ *     of the market to modify.
+ * @param {number | string | BigNumber} [redeemTokens] The amount of cTokens
+ *     to redeem. Use the `mantissa` option if it is scaled up.
+ * @param {number | string | BigNumber} [borrowAmount] The amount of the
+ *     underlying asset to borrow. Use the `mantissa` option if it is scaled
+ *     up.
+ * @param {CallOptions} [options] Call options and Ethers.js overrides for the
+ *     `eth_call`s.
+ *
+ * @returns {object} Returns the error code of the Comptroller, always 0, and
+ *     the hypothetical liquidity and shortfall of the account in USD. Rejects
+ *     with a `ProtocolError` named after the error code if the Comptroller
+ *     or the market returns one.
+ *
+ * @example
+ *
+ * ```
+ * const tropykus = new Tropykus('https://public-node.rsk.co');
+ *
+ * (async function () {
+ *   const result = await tropykus.getHypotheticalAccountLiquidity(
+ *     '0x123...', Tropykus.DOC, 0, 100
+ *   );
+ *   if (result.shortfall > 0) console.log('Borrowing 100 DOC is not allowed');
+ * })().catch(console.error);
+ * ```
+ */
+export async function getHypotheticalAccountLiquidity(
+	account: string,
+	market: string,
+	redeemTokens: string | number | BigNumber = 0,
+	borrowAmount: string | number | BigNumber = 0,
+	options: CallOptions = {}
+): Promise<AccountLiquidty> {
+	await netId(this);
+	const errorPrefix = "Compound [getHypotheticalAccountLiquidity] | ";
+
+	if (!ethers.utils.isAddress(account)) {
+		throw new ValidationError(
+			errorPrefix + "Argument `account` must be a valid Ethereum address."
+		);
+	}
+
+	const cToken = getMarket(this, market, errorPrefix);
+
+	const amounts = [redeemTokens, borrowAmount].map((amount, i) => {
+		if (
+			typeof amount !== "number" &&
+			typeof amount !== "string" &&
+			!ethers.BigNumber.isBigNumber(amount)
+		) {
+			throw new ValidationError(
+				errorPrefix +
+					"Argument `" +
+					(i === 0 ? "redeemTokens" : "borrowAmount") +
+					"` must be a string, number, or BigNumber."
+			);
+		}
+
+		if (!options.mantissa) {
+			const unitDecimals =
+				i === 0 ? decimals[cToken.cTokenName] : decimals[cToken.underlying];
+			amount = ethers.utils.parseUnits(amount.toString(), unitDecimals);
+		}
+
+		return ethers.BigNumber.from(amount.toString());
+	});
+
+	const comptrollerAddress =
+		address[getNetNameWithChainId(this._network.id)].Comptroller;
+
+	const trxOptions: CallOptions = {
+		_compoundProvider: this._provider,
+		abi: abi.Comptroller,
+		...options,
+	};
+
+	const [result, isMember] = await Promise.all([
+		eth.read(
+			comptrollerAddress,
+			"getHypotheticalAccountLiquidity",
+			[account, cToken.cTokenAddress, amounts[0], amounts[1]],
+			trxOptions
+		),
+		eth.read(
+			comptrollerAddress,
+			"checkMembership",
+			[account, cToken.cTokenAddress],
+			trxOptions
+		),
+	]);
+
+	// An error code comes with no liquidity and no shortfall, which would read
+	//     as an allowed action.
+	if (!result[0].isZero()) {
+		const failure = decodeFailure("comptroller", Number(result[0]));
+		throw new ProtocolError(
+			errorPrefix + "Comptroller returned an error. " + failure.description,
+			failure.errorName
+		);
+	}
+
+	let liquidity: BigNumber = result[1];
+	let shortfall: BigNumber = result[2];
+
+	if (!isMember && amounts[1].gt(0)) {
+		const [price, marketConfig, snapshot] = await Promise.all([
+			getUnderlyingPrice(this, cToken, options),
+			eth.read(
+				comptrollerAddress,
+				"markets",
+				[cToken.cTokenAddress],
+				trxOptions
+			),
+			eth.read(cToken.cTokenAddress, "getAccountSnapshot", [account], {
+				...options,
+				_compoundProvider: this._provider,
+				abi: cToken.abi,
+			}),
+		]);
+
+		if (!snapshot[0].isZero()) {
+			const failure = decodeFailure("cToken", Number(snapshot[0]));
+			throw new ProtocolError(
+				errorPrefix +
+					"Market `" +
+					cToken.cTokenName +
+					"` returned an error. " +
+					failure.description,
+				failure.errorName
+			);
+		}
+
+		// Same as `getMaxBorrow`: the deposits in the market count as
+		//     collateral once the borrow enters it.
+		const collateralValue = snapshot[1]
+			.mul(snapshot[3])
+			.div(ethers.constants.WeiPerEther)
+			.mul(marketConfig.collateralFactorMantissa)
+			.div(ethers.constants.WeiPerEther)
+			.mul(price)
+			.div(ethers.constants.WeiPerEther);
+		const borrowValue = amounts[1].mul(price).div(ethers.constants.WeiPerEther);
+
+		const net = liquidity.sub(shortfall).add(collateralValue).sub(borrowValue);
+		liquidity = net.gt(0) ? net : ethers.constants.Zero;
+		shortfall = net.lt(0) ? net.mul(-1) : ethers.constants.Zero;
+	}
+
+	return {
+		error: Number(result[0]),
+		liquidity: Number(liquidity) / 1e18,
+		shortfall: Number(shortfall) / 1e18,
+	};
+}
+
+/**
+ * Lists the markets an account has entered, the markets whose deposits count
+ *     as collateral for its borrows.
+ *
+ * @param {string} account The address of the account.
+ * @param {CallOptions} [options] Call options and Ethers.js overrides for the
+ *     `eth_call`.
+ *
+ * @returns {string[]} Returns the cToken names of the markets.
+ *
+ * @example
+ *
+ * ```
+ * const tropykus = new Tropykus('https://public-node.rsk.co');
+ *
+ * (async function () {
+ *   const markets = await tropykus.getCollateralMarkets('0x123...');
+ *   console.log('Collateral markets', markets);
+ * })().catch(console.error);
+ * ```
+ */
+export async function getCollateralMarkets(
+	account: string,
+	options: CallOptions = {}
+): Promise<string[]> {
+	await netId(this);
+	const errorPrefix = "Compound [getCollateralMarkets] | ";
+
+	if (!ethers.utils.isAddress(account)) {
+		throw new ValidationError(
+			errorPrefix + "Argument `account` must be a valid Ethereum address."
+		);
+	}
+
+	const comptrollerAddress =
+		address[getNetNameWithChainId(this._network.id)].Comptroller;
+
+	const assetsIn: string[] = await eth.read(
+		comptrollerAddress,
+		"getAssetsIn",
+		[account],
+		{ _compoundProvider: this._provider, abi: abi.Comptroller, ...options }
+	);
+	const addresses = assetsIn.map((a) => a.toLowerCase());
+
+	return getMarkets(this)
+		.filter((market) => addresses.includes(market.cTokenAddress.toLowerCase()))
+		.map((market) => market.cTokenName);
+}
+
+/**
+ * Checks if an account has entered a market, so its deposits in it count as
+ *     collateral for its borrows.
+ *
+ * @param {string} account The address of the account.
+ * @param {string} market A string of the underlying asset or the cToken name
+ *     of the market.
+ * @param {CallOptions} [options] Call options and Ethers.js overrides for the
+ *     `eth_call`.
+ *
+ * @returns {boolean} Returns true if the market is collateral of the account.
+ *
+ * @example
+ *
+ * ```
+ * const tropykus = new Tropykus('https://public-node.rsk.co');
+ *
+ * (async function () {
+ *   const enabled = await tropykus.isCollateralEnabled('0x123...', Tropykus.RBTC);
+ *   console.log('RBTC is collateral', enabled);
+ * })().catch(console.error);
+ * ```
+ */
+export async function isCollateralEnabled(
+	account: string,
+	market: string,
+	options: CallOptions = {}
+): Promise<boolean> {
+	await netId(this);
+	const errorPrefix = "Compound [isCollateralEnabled] | ";
+
+	if (!ethers.utils.isAddress(account)) {
+		throw new ValidationError(
+			errorPrefix + "Argument `account` must be a valid Ethereum address."
+		);
+	}
+
+	const cToken = getMarket(this, market, errorPrefix);
+
+	const comptrollerAddress =
+		address[getNetNameWithChainId(this._network.id)].Comptroller;
+
+	return eth.read(
+		comptrollerAddress,
+		"checkMembership",
+		[account, cToken.cTokenAddress],
+		{ _compoundProvider: this._provider, abi: abi.Comptroller, ...options }
+	);
+}
+
+/**
+ * Reads the risk parameters the Comptroller sets for a market, and the global
+ *     ones it applies to every market. Mantissas are returned as strings, as
+ *     the Comptroller stores them: `collateralFactorMantissa`,
+ *     `closeFactorMantissa` and `liquidationIncentiveMantissa` are scaled up
+ *     by 1e18 and `borrowCaps` by the decimals of the underlying asset.
+ *
+ * @param {string} market A string of the underlying asset or the cToken name
+ *     of the market.
+ * @param {CallOptions} [options] Call options and Ethers.js overrides for the
+ *     `eth_call`s.
+ *
+ * @returns {MarketConfig} Returns the listing, collateral factor, borrow cap
+ *     and pause state of the market, and the close factor, liquidation
+ *     incentive, maximum assets per account and price oracle of the
+ *     Comptroller. A borrow cap of 0 means the market has no cap.
+ *
+ * @example
+ *
+ * ```
+ * const tropykus = new Tropykus('https://public-node.rsk.co');
+ *
+ * (async function () {
+ *   const config = await tropykus.getMarketConfig(Tropykus.RBTC);
+ *   console.log('kRBTC collateral factor', config.collateralFactorMantissa / 1e18);
+ * })().catch(console.error);
+ * ```
+ */
+export async function getMarketConfig(
+	market: string,
+	options: CallOptions = {}
+): Promise<MarketConfig> {
+	await netId(this);
+	const errorPrefix = "Compound [getMarketConfig] | ";
+
+	const cToken = getMarket(this, market, errorPrefix);
+
+	const comptrollerAddress =
+		address[getNetNameWithChainId(this._network.id)].Comptroller;
+
+	const trxOptions: CallOptions = {
+		_compoundProvider: this._provider,
+		abi: abi.Comptroller,
+		...options,
+	};
+
+	const [
+		marketConfig,
+		borrowCaps,
+		mintGuardianPaused,
+		borrowGuardianPaused,
+		closeFactorMantissa,
+		liquidationIncentiveMantissa,
+		maxAssets,
+		oracle,
+	] = await Promise.all([
+		eth.read(comptrollerAddress, "markets", [cToken.cTokenAddress], trxOptions),
+		eth.read(
+			comptrollerAddress,
+			"borrowCaps",
+			[cToken.cTokenAddress],
+			trxOptions
+		),
+		eth.read(
+			comptrollerAddress,
+			"mintGuardianPaused",
+			[cToken.cTokenAddress],
+			trxOptions
+		),
+		eth.read(
+			comptrollerAddress,
+			"borrowGuardianPaused",
+			[cToken.cTokenAddress],
+			trxOptions
+		),
+		eth.read(comptrollerAddress, "closeFactorMantissa", [], trxOptions),
+		eth.read(
+			comptrollerAddress,
+			"liquidationIncentiveMantissa",
+			[],
+			trxOptions
+		),
+		eth.read(comptrollerAddress, "maxAssets", [], trxOptions),
+		eth.read(comptrollerAddress, "oracle", [], trxOptions),
+	]);
+
+	return {
+		asset: cToken.underlying,
+		cToken: cToken.cTokenName,
+		address: cToken.cTokenAddress,
+		isListed: !!marketConfig.isListed,
+		collateralFactorMantissa: marketConfig.collateralFactorMantissa.toString(),
+		borrowCaps: borrowCaps.toString(),
+		mintGuardianPaused: !!mintGuardianPaused,
+		borrowGuardianPaused: !!borrowGuardianPaused,
+		closeFactorMantissa: closeFactorMantissa.toString(),
+		liquidationIncentiveMantissa: liquidationIncentiveMantissa.toString(),
+		maxAssets: Number(maxAssets),
+		oracle,
+	};
+}
+
 /**
  * Enters the user's address into Compound Protocol markets.
  *
@@ -86,7 +479,9 @@ export async function enterMarkets(
 	}
 
 	if (!Array.isArray(markets)) {
-		throw Error(errorPrefix + "Argument `markets` must be an array or string.");
+		throw new ValidationError(
+			errorPrefix + "Argument `markets` must be an array or string."
+		);
 	}
 
 	const addresses = [];
@@ -96,7 +491,7 @@ export async function enterMarkets(
 		}
 
 		if (!cTokens.includes(markets[i])) {
-			throw Error(
+			throw new ValidationError(
 				errorPrefix +
 					"Provided market `" +
 					markets[i] +
@@ -152,7 +547,7 @@ export async function exitMarket(
 	const errorPrefix = "Compound [exitMarket] | ";
 
 	if (typeof market !== "string" || market === "") {
-		throw Error(
+		throw new ValidationError(
 			errorPrefix +
 				"Argument `market` must be a string of a cToken market name."
 		);
@@ -163,7 +558,7 @@ export async function exitMarket(
 	}
 
 	if (!cTokens.includes(market)) {
-		throw Error(
+		throw new ValidationError(
 			errorPrefix +
 				"Provided market `" +
 				market +
@@ -174,6 +569,51 @@ export async function exitMarket(
 	const cTokenAddress =
 		address[getNetNameWithChainId(this._network.id)][market];
 
+	let userAddress = this._provider.address;
+
+	if (!userAddress && this._provider.getAddress) {
+		userAddress = await this._provider.getAddress();
+	}
+
+	// The Comptroller only lets an account exit a market without a borrow in
+	//     it and when redeeming all of its cTokens would be allowed.
+	const snapshot = await eth.read(
+		cTokenAddress,
+		"getAccountSnapshot",
+		[userAddress],
+		{ _compoundProvider: this._provider, abi: abi.cErc20, ...options }
+	);
+	if (!snapshot[0].isZero()) {
+		const failure = decodeFailure("cToken", Number(snapshot[0]));
+		throw new ProtocolError(
+			errorPrefix +
+				"Market `" +
+				market +
+				"` returned an error. " +
+				failure.description,
+			failure.errorName
+		);
+	}
+	if (snapshot[2].gt(0)) {
+		throw new ProtocolError(
+			errorPrefix + "Cannot exit a market with an open borrow.",
+			"OUTSTANDING_BORROWS"
+		);
+	}
+
+	const hypothetical = await getHypotheticalAccountLiquidity.bind(this)(
+		userAddress,
+		market,
+		snapshot[1],
+		0,
+		{ ...options, mantissa: true }
+	);
+	if (hypothetical.shortfall > 0) {
+		throw new InsufficientCollateralError(
+			errorPrefix + "Insufficient collateral"
+		);
+	}
+
 	const comptrollerAddress =
 		address[getNetNameWithChainId(this._network.id)].Comptroller;
 	const parameters = [cTokenAddress];
@@ -186,3 +626,108 @@ export async function exitMarket(
 
 	return eth.trx(comptrollerAddress, "exitMarket", parameters, trxOptions);
 }
+
+/**
+ * Quotes the liquidation of a borrow: how much of it can be repaid at once
+ *     (the close factor of the Comptroller, applied to the borrow with its
+ *     interest accrued) and how much collateral the liquidator would seize for
+ *     it, including the liquidation incentive.
+ *
+ * @param {string} borrower The address of the account to liquidate.
+ * @param {string} repayAsset A string of the underlying asset or the cToken
+ *     name of the borrow to repay.
+ * @param {number | string | BigNumber} amount The amount of the borrow to
+ *     repay. Use the `mantissa` option if it is scaled up.
+ * @param {string} collateralAsset A string of the underlying asset or the
+ *     cToken name of the collateral to seize.
+ * @param {CallOptions} [options] Call options and Ethers.js overrides for the
+ *     `eth_call`s.
+ *
+ * @returns {LiquidationQuote} Returns the repay amounts in the underlying of
+ *     the borrow, the collateral seized in cTokens and in its underlying and
+ *     the shortfall of the borrower in USD. A borrower without shortfall
+ *     cannot be liquidated.
+ *
+ * @example
+ *
+ * ```
+ * const tropykus = new Tropykus('https://public-node.rsk.co');
+ *
+ * (async function () {
+ *   const quote = await tropykus.quoteLiquidation(
+ *     '0x123...', Tropykus.DOC, 100, Tropykus.RBTC
+ *   );
+ *   console.log('RBTC seized', quote.seizeAmount);
+ * })().catch(console.error);
+ * ```
+ */
+export async function quoteLiquidation(
+	borrower: string,
+	repayAsset: string,
+	amount: string | number | BigNumber,
+	collateralAsset: string,
+	options: CallOptions = {}
+): Promise<LiquidationQuote> {
+	await netId(this);
+	const errorPrefix = "Compound [quoteLiquidation] | ";
+
+	if (!ethers.utils.isAddress(borrower)) {
+		throw new ValidationError(
+			errorPrefix + "Argument `borrower` must be a valid Ethereum address."
+		);
+	}
+
+	const repayMarket = getMarket(this, repayAsset, errorPrefix);
+	const collateralMarket = getMarket(this, collateralAsset, errorPrefix);
+
+	if (
+		typeof amount !== "number" &&
+		typeof amount !== "string" &&
+		!ethers.BigNumber.isBigNumber(amount)
+	) {
+		throw new ValidationError(
+			errorPrefix + "Argument `amount` must be a string, number, or BigNumber."
+		);
+	}
+
+	if (!options.mantissa) {
+		amount = ethers.utils.parseUnits(
+			amount.toString(),
+			decimals[repayMarket.underlying]
+		);
+	}
+
+	amount = ethers.BigNumber.from(amount.toString());
+
+	const liquidation = await readLiquidation(
+		this,
+		borrower,
+		repayMarket,
+		collateralMarket,
+		amount,
+		options,
+		errorPrefix
+	);
+
+	const repayDecimals = decimals[repayMarket.underlying];
+	const collateralDecimals = decimals[collateralMarket.underlying];
+	const seizeAmount = liquidation.seizeTokens
+		.mul(liquidation.exchangeRate)
+		.div(ethers.constants.WeiPerEther);
+
+	return {
+		borrower,
+		repayAsset: repayMarket.cTokenName,
+		collateralAsset: collateralMarket.cTokenName,
+		repayAmount: Number(amount) / Math.pow(10, repayDecimals),
+		maxRepayAmount:
+			Number(liquidation.maxRepayAmount) / Math.pow(10, repayDecimals),
+		seizeTokens:
+			Number(liquidation.seizeTokens) /
+			Math.pow(10, decimals[collateralMarket.cTokenName]),
+		seizeAmount: Number(seizeAmount) / Math.pow(10, collateralDecimals),
+		closeFactor: Number(liquidation.closeFactor) / 1e18,
+		liquidationIncentive: Number(liquidation.liquidationIncentive) / 1e18,
+		shortfall: Number(liquidation.shortfall) / 1e18,
+	};
+}
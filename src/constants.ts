@@ -107,6 +107,7 @@ export const address = {
 		RBTC: "0x0000000000085d4780B73119b644AE5ecd22b376",
 		BPRO: "0x0000000000085d4780B73119b644AE5ecd22b376",
 		USDRIF: "0x0000000000085d4780B73119b644AE5ecd22b376",
+		Multicall: "0xcA11bde05977b3631167028862bE2a173976CA11",
 	},
 	rinkeby: {
 		PriceFeed: "0x5722A3F60fa4F0EC5120DCD6C386289A4758D1b2",
@@ -219,6 +220,7 @@ export const address = {
 	rsk_mainnet: {
 		//TODO: Check this addresses
 		PriceFeed: "0xb90c96607b45f9bB7509861A1CE77Cb8a72EdFB2",
+		Multicall: "0xcA11bde05977b3631167028862bE2a173976CA11",
 		Comptroller: "0x962308fEf8edFaDD705384840e7701F8f39eD0c0",
 		// RSK TOKENS
 		DOC: "0xe700691da7b9851f2f35f8b8182c69c53ccad9db",
@@ -236,6 +238,7 @@ export const address = {
 	rsk_testnet: {
 		//TODO: Check this addresses
 		PriceFeed: "0xb90c96607b45f9bB7509861A1CE77Cb8a72EdFB2",
+		Multicall: "0xcA11bde05977b3631167028862bE2a173976CA11",
 		Comptroller: "0xb1bec5376929b4e0235f1353819dba92c4b0c6bb",
 		// RSK TOKENS
 		DOC: "0xcb46c0ddc60d18efeb0e586c17af6ea36452dae0",
@@ -331,6 +334,14 @@ export const decimals = {
 	cWBTC: 8,
 	cYFI: 8,
 	cZRX: 8,
+	cDOC: 18,
+	cRBTC: 18,
+	cBPRO: 18,
+	cUSDRIF: 18,
+	kDOC: 18,
+	kRBTC: 18,
+	kBPRO: 18,
+	kUSDRIF: 18,
 	AAVE: 18,
 	BAT: 18,
 	BTC: 8,
@@ -357,52 +368,163 @@ export const decimals = {
 	USDRIF: 18
 };
 
-// TODO: Show a specific error code when a transaction fails
-// export const errorCodes = {
-//   'comptroller': {
-//     'codes': {
-//       '0': {  'error': 'NO_ERROR',                      'description': 'Not a failure.', 'hint': '', },
-//       '1': {  'error': 'UNAUTHORIZED',                  'description': 'The sender is not authorized to perform this action.', 'hint': '', },
-//       '2': {  'error': 'COMPTROLLER_MISMATCH',          'description': 'Liquidation cannot be performed in markets with different comptrollers.', 'hint': '', },
-//       '3': {  'error': 'INSUFFICIENT_SHORTFALL',        'description': 'The account does not have sufficient shortfall to perform this action.', 'hint': '', },
-//       '4': {  'error': 'INSUFFICIENT_LIQUIDITY',        'description': 'The account does not have sufficient liquidity to perform this action.', 'hint': '', },
-//       '5': {  'error': 'INVALID_CLOSE_FACTOR',          'description': 'The close factor is not valid.', 'hint': '', },
-//       '6': {  'error': 'INVALID_COLLATERAL_FACTOR',     'description': 'The collateral factor is not valid.', 'hint': '', },
-//       '7': {  'error': 'INVALID_LIQUIDATION_INCENTIVE', 'description': 'The liquidation incentive is invalid.', 'hint': '', },
-//       '8': {  'error': 'MARKET_NOT_ENTERED',            'description': 'The market has not been entered by the account.', 'hint': '', },
-//       '9': {  'error': 'MARKET_NOT_LISTED',             'description': 'The market is not currently listed by the comptroller.', 'hint': '', },
-//       '10': { 'error': 'MARKET_ALREADY_LISTED',         'description': 'An admin tried to list the same market more than once.', 'hint': '', },
-//       '11': { 'error': 'MATH_ERROR',                    'description': 'A math calculation error occurred.', 'hint': '', },
-//       '12': { 'error': 'NONZERO_BORROW_BALANCE',        'description': 'The action cannot be performed since the account carries a borrow balance.', 'hint': '', },
-//       '13': { 'error': 'PRICE_ERROR',                   'description': 'The comptroller could not obtain a required price of an asset.', 'hint': '', },
-//       '14': { 'error': 'REJECTION',                     'description': 'The comptroller rejects the action requested by the market.', 'hint': '', },
-//       '15': { 'error': 'SNAPSHOT_ERROR',                'description': 'The comptroller could not get the account borrows and exchange rate from the market.', 'hint': '', },
-//       '16': { 'error': 'TOO_MANY_ASSETS',               'description': 'Attempted to enter more markets than are currently supported.', 'hint': '', },
-//       '17': { 'error': 'TOO_MUCH_REPAY',                'description': 'Attempted to repay more than is allowed by the protocol.', 'hint': '', },
-//     },
-//     'info':  {
-//       '0': {  'error': 'ACCEPT_ADMIN_PENDING_ADMIN_CHECK',            'description': '', 'hint': '', },
-//       '1': {  'error': 'ACCEPT_PENDING_IMPLEMENTATION_ADDRESS_CHECK', 'description': '', 'hint': '', },
-//       '2': {  'error': 'EXIT_MARKET_BALANCE_OWED',                    'description': '', 'hint': '', },
-//       '3': {  'error': 'EXIT_MARKET_REJECTION',                       'description': '', 'hint': '', },
-//       '4': {  'error': 'SET_CLOSE_FACTOR_OWNER_CHECK',                'description': '', 'hint': '', },
-//       '5': {  'error': 'SET_CLOSE_FACTOR_VALIDATION',                 'description': '', 'hint': '', },
-//       '6': {  'error': 'SET_COLLATERAL_FACTOR_OWNER_CHECK',           'description': '', 'hint': '', },
-//       '7': {  'error': 'SET_COLLATERAL_FACTOR_NO_EXISTS',             'description': '', 'hint': '', },
-//       '8': {  'error': 'SET_COLLATERAL_FACTOR_VALIDATION',            'description': '', 'hint': '', },
-//       '9': {  'error': 'SET_COLLATERAL_FACTOR_WITHOUT_PRICE',         'description': '', 'hint': '', },
-//       '10': { 'error': 'SET_IMPLEMENTATION_OWNER_CHECK',              'description': '', 'hint': '', },
-//       '11': { 'error': 'SET_LIQUIDATION_INCENTIVE_OWNER_CHECK',       'description': '', 'hint': '', },
-//       '12': { 'error': 'SET_LIQUIDATION_INCENTIVE_VALIDATION',        'description': '', 'hint': '', },
-//       '13': { 'error': 'SET_MAX_ASSETS_OWNER_CHECK',                  'description': '', 'hint': '', },
-//       '14': { 'error': 'SET_PENDING_ADMIN_OWNER_CHECK',               'description': '', 'hint': '', },
-//       '15': { 'error': 'SET_PENDING_IMPLEMENTATION_OWNER_CHECK',      'description': '', 'hint': '', },
-//       '16': { 'error': 'SET_PRICE_ORACLE_OWNER_CHECK',                'description': '', 'hint': '', },
-//       '17': { 'error': 'SUPPORT_MARKET_EXISTS',                       'description': '', 'hint': '', },
-//       '18': { 'error': 'SUPPORT_MARKET_OWNER_CHECK',                  'description': '', 'hint': '', },
-//     }
-//   }
-// };
+// Blocks mined in a year at RSK's ~30 second block time
+export const blocksPerYear = 1051200;
+
+// Error codes of the Comptroller and cToken contracts, returned by their
+//     methods and emitted in their `Failure(error, info, detail)` events. The
+//     `info` codes tell which check failed. For `COMPTROLLER_REJECTION`
+//     failures of a cToken, `detail` is the error code of the Comptroller.
+export const errorCodes = {
+	comptroller: {
+		codes: {
+			0: { error: "NO_ERROR", description: "Not a failure.", hint: "" },
+			1: { error: "UNAUTHORIZED", description: "The sender is not authorized to perform this action.", hint: "" },
+			2: { error: "COMPTROLLER_MISMATCH", description: "Liquidation cannot be performed in markets with different comptrollers.", hint: "" },
+			3: { error: "INSUFFICIENT_SHORTFALL", description: "The account does not have sufficient shortfall to perform this action.", hint: "Only accounts in the liquidation zone can be liquidated." },
+			4: { error: "INSUFFICIENT_LIQUIDITY", description: "The account does not have sufficient liquidity to perform this action.", hint: "Supply more collateral or repay part of the borrows first." },
+			5: { error: "INVALID_CLOSE_FACTOR", description: "The close factor is not valid.", hint: "" },
+			6: { error: "INVALID_COLLATERAL_FACTOR", description: "The collateral factor is not valid.", hint: "" },
+			7: { error: "INVALID_LIQUIDATION_INCENTIVE", description: "The liquidation incentive is invalid.", hint: "" },
+			8: { error: "MARKET_NOT_ENTERED", description: "The market has not been entered by the account.", hint: "Enter the market with `enterMarkets` first." },
+			9: { error: "MARKET_NOT_LISTED", description: "The market is not currently listed by the comptroller.", hint: "" },
+			10: { error: "MARKET_ALREADY_LISTED", description: "An admin tried to list the same market more than once.", hint: "" },
+			11: { error: "MATH_ERROR", description: "A math calculation error occurred.", hint: "" },
+			12: { error: "NONZERO_BORROW_BALANCE", description: "The action cannot be performed since the account carries a borrow balance.", hint: "Repay the borrow first." },
+			13: { error: "PRICE_ERROR", description: "The comptroller could not obtain a required price of an asset.", hint: "" },
+			14: { error: "REJECTION", description: "The comptroller rejects the action requested by the market.", hint: "" },
+			15: { error: "SNAPSHOT_ERROR", description: "The comptroller could not get the account borrows and exchange rate from the market.", hint: "" },
+			16: { error: "TOO_MANY_ASSETS", description: "Attempted to enter more markets than are currently supported.", hint: "Exit a market first." },
+			17: { error: "TOO_MUCH_REPAY", description: "Attempted to repay more than is allowed by the protocol.", hint: "Repay at most the close factor of the borrow." },
+		},
+		info: {
+			0: "ACCEPT_ADMIN_PENDING_ADMIN_CHECK",
+			1: "ACCEPT_PENDING_IMPLEMENTATION_ADDRESS_CHECK",
+			2: "EXIT_MARKET_BALANCE_OWED",
+			3: "EXIT_MARKET_REJECTION",
+			4: "SET_CLOSE_FACTOR_OWNER_CHECK",
+			5: "SET_CLOSE_FACTOR_VALIDATION",
+			6: "SET_COLLATERAL_FACTOR_OWNER_CHECK",
+			7: "SET_COLLATERAL_FACTOR_NO_EXISTS",
+			8: "SET_COLLATERAL_FACTOR_VALIDATION",
+			9: "SET_COLLATERAL_FACTOR_WITHOUT_PRICE",
+			10: "SET_IMPLEMENTATION_OWNER_CHECK",
+			11: "SET_LIQUIDATION_INCENTIVE_OWNER_CHECK",
+			12: "SET_LIQUIDATION_INCENTIVE_VALIDATION",
+			13: "SET_MAX_ASSETS_OWNER_CHECK",
+			14: "SET_PENDING_ADMIN_OWNER_CHECK",
+			15: "SET_PENDING_IMPLEMENTATION_OWNER_CHECK",
+			16: "SET_PRICE_ORACLE_OWNER_CHECK",
+			17: "SUPPORT_MARKET_EXISTS",
+			18: "SUPPORT_MARKET_OWNER_CHECK",
+			19: "SET_PAUSE_GUARDIAN_OWNER_CHECK",
+		},
+	},
+	cToken: {
+		codes: {
+			0: { error: "NO_ERROR", description: "Not a failure.", hint: "" },
+			1: { error: "UNAUTHORIZED", description: "The sender is not authorized to perform this action.", hint: "" },
+			2: { error: "BAD_INPUT", description: "An invalid argument was supplied by the caller.", hint: "" },
+			3: { error: "COMPTROLLER_REJECTION", description: "The action would violate the comptroller policy.", hint: "See the `info` and `detail` of the failure for the comptroller error." },
+			4: { error: "COMPTROLLER_CALCULATION_ERROR", description: "An internal calculation has failed in the comptroller.", hint: "" },
+			5: { error: "INTEREST_RATE_MODEL_ERROR", description: "The interest rate model returned an invalid value.", hint: "" },
+			6: { error: "INVALID_ACCOUNT_PAIR", description: "The specified combination of accounts is invalid.", hint: "" },
+			7: { error: "INVALID_CLOSE_AMOUNT_REQUESTED", description: "The amount to liquidate is invalid.", hint: "" },
+			8: { error: "INVALID_COLLATERAL_FACTOR", description: "The collateral factor is not valid.", hint: "" },
+			9: { error: "MATH_ERROR", description: "A math calculation error occurred.", hint: "" },
+			10: { error: "MARKET_NOT_FRESH", description: "Interest has not been properly accrued.", hint: "" },
+			11: { error: "MARKET_NOT_LISTED", description: "The market is not currently listed by its comptroller.", hint: "" },
+			12: { error: "TOKEN_INSUFFICIENT_ALLOWANCE", description: "ERC-20 contract must allow the market to pull the tokens.", hint: "Approve the cToken to spend the underlying asset first." },
+			13: { error: "TOKEN_INSUFFICIENT_BALANCE", description: "The caller does not have sufficient balance in the ERC-20 contract.", hint: "" },
+			14: { error: "TOKEN_INSUFFICIENT_CASH", description: "The market does not have sufficient cash available.", hint: "Try a smaller amount." },
+			15: { error: "TOKEN_TRANSFER_IN_FAILED", description: "Failure in the ERC-20 transfer in to the market.", hint: "" },
+			16: { error: "TOKEN_TRANSFER_OUT_FAILED", description: "Failure in the ERC-20 transfer out of the market.", hint: "" },
+		},
+		info: {
+			0: "ACCEPT_ADMIN_PENDING_ADMIN_CHECK",
+			1: "ACCRUE_INTEREST_ACCUMULATED_INTEREST_CALCULATION_FAILED",
+			2: "ACCRUE_INTEREST_BORROW_RATE_CALCULATION_FAILED",
+			3: "ACCRUE_INTEREST_NEW_BORROW_INDEX_CALCULATION_FAILED",
+			4: "ACCRUE_INTEREST_NEW_TOTAL_BORROWS_CALCULATION_FAILED",
+			5: "ACCRUE_INTEREST_NEW_TOTAL_RESERVES_CALCULATION_FAILED",
+			6: "ACCRUE_INTEREST_SIMPLE_INTEREST_FACTOR_CALCULATION_FAILED",
+			7: "BORROW_ACCUMULATED_BALANCE_CALCULATION_FAILED",
+			8: "BORROW_ACCRUE_INTEREST_FAILED",
+			9: "BORROW_CASH_NOT_AVAILABLE",
+			10: "BORROW_FRESHNESS_CHECK",
+			11: "BORROW_NEW_TOTAL_BALANCE_CALCULATION_FAILED",
+			12: "BORROW_NEW_ACCOUNT_BORROW_BALANCE_CALCULATION_FAILED",
+			13: "BORROW_MARKET_NOT_LISTED",
+			14: "BORROW_COMPTROLLER_REJECTION",
+			15: "LIQUIDATE_ACCRUE_BORROW_INTEREST_FAILED",
+			16: "LIQUIDATE_ACCRUE_COLLATERAL_INTEREST_FAILED",
+			17: "LIQUIDATE_COLLATERAL_FRESHNESS_CHECK",
+			18: "LIQUIDATE_COMPTROLLER_REJECTION",
+			19: "LIQUIDATE_COMPTROLLER_CALCULATE_AMOUNT_SEIZE_FAILED",
+			20: "LIQUIDATE_CLOSE_AMOUNT_IS_UINT_MAX",
+			21: "LIQUIDATE_CLOSE_AMOUNT_IS_ZERO",
+			22: "LIQUIDATE_FRESHNESS_CHECK",
+			23: "LIQUIDATE_LIQUIDATOR_IS_BORROWER",
+			24: "LIQUIDATE_REPAY_BORROW_FRESH_FAILED",
+			25: "LIQUIDATE_SEIZE_BALANCE_INCREMENT_FAILED",
+			26: "LIQUIDATE_SEIZE_BALANCE_DECREMENT_FAILED",
+			27: "LIQUIDATE_SEIZE_COMPTROLLER_REJECTION",
+			28: "LIQUIDATE_SEIZE_LIQUIDATOR_IS_BORROWER",
+			29: "LIQUIDATE_SEIZE_TOO_MUCH",
+			30: "MINT_ACCRUE_INTEREST_FAILED",
+			31: "MINT_COMPTROLLER_REJECTION",
+			32: "MINT_EXCHANGE_CALCULATION_FAILED",
+			33: "MINT_EXCHANGE_RATE_READ_FAILED",
+			34: "MINT_FRESHNESS_CHECK",
+			35: "MINT_NEW_ACCOUNT_BALANCE_CALCULATION_FAILED",
+			36: "MINT_NEW_TOTAL_SUPPLY_CALCULATION_FAILED",
+			37: "MINT_TRANSFER_IN_FAILED",
+			38: "MINT_TRANSFER_IN_NOT_POSSIBLE",
+			39: "REDEEM_ACCRUE_INTEREST_FAILED",
+			40: "REDEEM_COMPTROLLER_REJECTION",
+			41: "REDEEM_EXCHANGE_TOKENS_CALCULATION_FAILED",
+			42: "REDEEM_EXCHANGE_AMOUNT_CALCULATION_FAILED",
+			43: "REDEEM_EXCHANGE_RATE_READ_FAILED",
+			44: "REDEEM_FRESHNESS_CHECK",
+			45: "REDEEM_NEW_ACCOUNT_BALANCE_CALCULATION_FAILED",
+			46: "REDEEM_NEW_TOTAL_SUPPLY_CALCULATION_FAILED",
+			47: "REDEEM_TRANSFER_OUT_NOT_POSSIBLE",
+			48: "REDUCE_RESERVES_ACCRUE_INTEREST_FAILED",
+			49: "REDUCE_RESERVES_ADMIN_CHECK",
+			50: "REDUCE_RESERVES_CASH_NOT_AVAILABLE",
+			51: "REDUCE_RESERVES_FRESH_CHECK",
+			52: "REDUCE_RESERVES_VALIDATION",
+			53: "REPAY_BEHALF_ACCRUE_INTEREST_FAILED",
+			54: "REPAY_BORROW_ACCRUE_INTEREST_FAILED",
+			55: "REPAY_BORROW_ACCUMULATED_BALANCE_CALCULATION_FAILED",
+			56: "REPAY_BORROW_COMPTROLLER_REJECTION",
+			57: "REPAY_BORROW_FRESHNESS_CHECK",
+			58: "REPAY_BORROW_NEW_ACCOUNT_BORROW_BALANCE_CALCULATION_FAILED",
+			59: "REPAY_BORROW_NEW_TOTAL_BALANCE_CALCULATION_FAILED",
+			60: "REPAY_BORROW_TRANSFER_IN_NOT_POSSIBLE",
+			61: "SET_COLLATERAL_FACTOR_OWNER_CHECK",
+			62: "SET_COLLATERAL_FACTOR_VALIDATION",
+			63: "SET_COMPTROLLER_OWNER_CHECK",
+			64: "SET_INTEREST_RATE_MODEL_ACCRUE_INTEREST_FAILED",
+			65: "SET_INTEREST_RATE_MODEL_FRESH_CHECK",
+			66: "SET_INTEREST_RATE_MODEL_OWNER_CHECK",
+			67: "SET_MAX_ASSETS_OWNER_CHECK",
+			68: "SET_ORACLE_MARKET_NOT_LISTED",
+			69: "SET_PENDING_ADMIN_OWNER_CHECK",
+			70: "SET_RESERVE_FACTOR_ACCRUE_INTEREST_FAILED",
+			71: "SET_RESERVE_FACTOR_ADMIN_CHECK",
+			72: "SET_RESERVE_FACTOR_FRESH_CHECK",
+			73: "SET_RESERVE_FACTOR_BOUNDS_CHECK",
+			74: "TRANSFER_COMPTROLLER_REJECTION",
+			75: "TRANSFER_NOT_ALLOWED",
+			76: "TRANSFER_NOT_ENOUGH",
+			77: "TRANSFER_TOO_MUCH",
+			78: "ADD_RESERVES_ACCRUE_INTEREST_FAILED",
+			79: "ADD_RESERVES_FRESH_CHECK",
+			80: "ADD_RESERVES_TRANSFER_IN_NOT_POSSIBLE",
+		},
+	},
+};
 
 export const abi = {
 	Erc20: [
@@ -4603,6 +4725,22 @@ export const abi = {
 		},
 	],
 	PriceFeed: ["function price(string symbol) returns (uint256)"],
+	PriceOracle: [
+		"function getUnderlyingPrice(address cToken) view returns (uint256)",
+	],
+	InterestRateModel: [
+		"function baseRatePerBlock() view returns (uint256)",
+		"function multiplierPerBlock() view returns (uint256)",
+		"function jumpMultiplierPerBlock() view returns (uint256)",
+		"function kink() view returns (uint256)",
+		"function utilizationRate(uint256 cash, uint256 borrows, uint256 reserves) view returns (uint256)",
+		"function getBorrowRate(uint256 cash, uint256 borrows, uint256 reserves) view returns (uint256)",
+		"function getSupplyRate(uint256 cash, uint256 borrows, uint256 reserves, uint256 reserveFactorMantissa) view returns (uint256)",
+	],
+	Multicall: [
+		"function aggregate(tuple(address target, bytes callData)[] calls) returns (uint256 blockNumber, bytes[] returnData)",
+		"function tryAggregate(bool requireSuccess, tuple(address target, bytes callData)[] calls) returns (tuple(bool success, bytes returnData)[] returnData)",
+	],
 	CompoundLens: [
 		{
 			constant: false,
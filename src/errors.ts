@@ -0,0 +1,334 @@
+/**
+ * @file Errors
+ * @desc These classes are thrown by the SDK, so callers can tell failures
+ *     apart by class or by their machine-readable `code` instead of by their
+ *     message, and these methods decode the error codes of the Comptroller and
+ *     cToken contracts. They are exposed as `Tropykus.errors`. Messages,
+ *     including their `Compound [method]` prefix, are for people and are not
+ *     part of the API: they may change in any release.
+ */
+
+import { ethers } from "ethers";
+import { errorCodes } from "./constants";
+import { ProtocolFailure } from "./types";
+
+export { errorCodes };
+
+/**
+ * The base class of the errors thrown by the SDK. The `code` names the
+ *     failure and the `cause`, if any, is the error that led to it.
+ */
+export class TropykusError extends Error {
+	code: string;
+	cause?: unknown;
+
+	constructor(message: string, code = "TROPYKUS_ERROR", cause?: unknown) {
+		super(message);
+		this.name = "TropykusError";
+		this.code = code;
+		this.cause = cause;
+
+		// Keeps `instanceof` working when compiled to ES5.
+		Object.setPrototypeOf(this, new.target.prototype);
+	}
+}
+
+/**
+ * Thrown when an argument or option of a method is not valid.
+ */
+export class ValidationError extends TropykusError {
+	constructor(message: string, code = "INVALID_ARGUMENT") {
+		super(message, code);
+		this.name = "ValidationError";
+	}
+}
+
+/**
+ * Thrown when the protocol would reject an action for the state of the
+ *     account or the market, like redeeming more than supplied.
+ */
+export class ProtocolError extends TropykusError {
+	constructor(message: string, code = "PROTOCOL_ERROR", cause?: unknown) {
+		super(message, code, cause);
+		this.name = "ProtocolError";
+	}
+}
+
+/**
+ * Thrown when the collateral of an account does not cover an action, or the
+ *     account is already in the liquidation zone.
+ */
+export class InsufficientCollateralError extends ProtocolError {
+	constructor(message: string, code = "INSUFFICIENT_COLLATERAL") {
+		super(message, code);
+		this.name = "InsufficientCollateralError";
+	}
+}
+
+/**
+ * Thrown when a market is not listed in the Comptroller.
+ */
+export class MarketNotListedError extends ProtocolError {
+	market: string;
+
+	constructor(message: string, market: string) {
+		super(message, "MARKET_NOT_LISTED");
+		this.name = "MarketNotListedError";
+		this.market = market;
+	}
+}
+
+/**
+ * Thrown when the pause guardian of the Comptroller has paused an action in a
+ *     market.
+ */
+export class PausedMarketError extends ProtocolError {
+	market: string;
+	action: string;
+
+	constructor(message: string, market: string, action: string) {
+		super(message, "MARKET_PAUSED");
+		this.name = "PausedMarketError";
+		this.market = market;
+		this.action = action;
+	}
+}
+
+/**
+ * Thrown when a borrow would take the total borrows of a market to its borrow
+ *     cap. Amounts are in the underlying asset.
+ */
+export class BorrowCapReachedError extends ProtocolError {
+	market: string;
+	borrowCap: number;
+	totalBorrows: number;
+
+	constructor(
+		message: string,
+		market: string,
+		borrowCap: number,
+		totalBorrows: number
+	) {
+		super(message, "BORROW_CAP_REACHED");
+		this.name = "BorrowCapReachedError";
+		this.market = market;
+		this.borrowCap = borrowCap;
+		this.totalBorrows = totalBorrows;
+	}
+}
+
+/**
+ * Thrown when a JSON RPC request to the provider fails. The `method` and
+ *     `parameters` are the contract method and its parameters, and `error` is
+ *     the same as `cause`, the error of Ethers.js or the provider.
+ */
+export class RpcError extends TropykusError {
+	method: string;
+	// eslint-disable-next-line @typescript-eslint/no-explicit-any
+	parameters: any[];
+	error: unknown;
+
+	constructor(
+		message: string,
+		cause: unknown,
+		method: string,
+		// eslint-disable-next-line @typescript-eslint/no-explicit-any
+		parameters: any[],
+		code = "RPC_ERROR"
+	) {
+		super(message, code, cause);
+		this.name = "RpcError";
+		this.method = method;
+		this.parameters = parameters;
+		this.error = cause;
+	}
+}
+
+/**
+ * Thrown when the user rejects a transaction or signature in the wallet.
+ */
+export class UserRejectedError extends RpcError {
+	constructor(
+		message: string,
+		cause: unknown,
+		method: string,
+		// eslint-disable-next-line @typescript-eslint/no-explicit-any
+		parameters: any[]
+	) {
+		super(message, cause, method, parameters, "USER_REJECTED");
+		this.name = "UserRejectedError";
+	}
+}
+
+/**
+ * Thrown when a call or transaction reverts. The `reason` is the revert
+ *     reason of the contract, if any.
+ */
+export class RevertedError extends RpcError {
+	reason: string | null;
+
+	constructor(
+		message: string,
+		cause: unknown,
+		method: string,
+		// eslint-disable-next-line @typescript-eslint/no-explicit-any
+		parameters: any[],
+		reason: string | null = null
+	) {
+		super(message, cause, method, parameters, "REVERTED");
+		this.name = "RevertedError";
+		this.reason = reason;
+	}
+}
+
+/**
+ * Thrown by the `wait` of a transaction that was mined without reverting, but
+ *     in which the Comptroller or a cToken emitted a `Failure` event: the
+ *     contract returned an error code instead of reverting, so nothing was
+ *     done.
+ */
+export class TransactionFailedError extends TropykusError {
+	failures: ProtocolFailure[];
+	receipt: ethers.providers.TransactionReceipt;
+
+	constructor(
+		message: string,
+		failures: ProtocolFailure[],
+		receipt: ethers.providers.TransactionReceipt
+	) {
+		super(message, "TRANSACTION_FAILED");
+		this.name = "TransactionFailedError";
+		this.failures = failures;
+		this.receipt = receipt;
+	}
+}
+
+/**
+ * Thrown while waiting for a transaction that was replaced by another one
+ *     with the same nonce: `repriced` when only its gas price changed, like
+ *     after `speedUp`, `cancelled` when the replacement does nothing, like
+ *     after `cancel`, and `replaced` otherwise. The `replacement` is the
+ *     transaction that was mined instead, with its `receipt`.
+ */
+export class TransactionReplacedError extends TropykusError {
+	reason: string;
+	replacement: ethers.providers.TransactionResponse;
+	receipt: ethers.providers.TransactionReceipt;
+
+	constructor(
+		message: string,
+		reason: string,
+		replacement: ethers.providers.TransactionResponse,
+		receipt: ethers.providers.TransactionReceipt,
+		cause?: unknown
+	) {
+		super(message, "TRANSACTION_REPLACED", cause);
+		this.name = "TransactionReplacedError";
+		this.reason = reason;
+		this.replacement = replacement;
+		this.receipt = receipt;
+	}
+}
+
+/**
+ * Thrown while waiting for a transaction that the node no longer knows and
+ *     that was not mined, like one evicted from the mempool for its gas price.
+ */
+export class TransactionDroppedError extends TropykusError {
+	hash: string;
+
+	constructor(message: string, hash: string) {
+		super(message, "TRANSACTION_DROPPED");
+		this.name = "TransactionDroppedError";
+		this.hash = hash;
+	}
+}
+
+/**
+ * Thrown by `supply` with `asCollateral` when the `mint` transaction was sent
+ *     but the `enterMarkets` transaction after it failed. The `mintTx` is the
+ *     transaction of the supply, to wait for or track, and the `cause` is the
+ *     error of `enterMarkets`.
+ */
+export class EnterMarketsFailedError extends TropykusError {
+	mintTx: ethers.providers.TransactionResponse;
+
+	constructor(
+		message: string,
+		mintTx: ethers.providers.TransactionResponse,
+		cause: unknown
+	) {
+		super(message, "ENTER_MARKETS_FAILED", cause);
+		this.name = "EnterMarketsFailedError";
+		this.mintTx = mintTx;
+	}
+}
+
+/**
+ * Decodes an error code returned by a method of the Comptroller or a cToken,
+ *     or emitted in one of their `Failure` events. Codes missing from the
+ *     catalog are named `UNKNOWN`.
+ *
+ * @param {string} source The contract of the code: `comptroller` or
+ *     `cToken`.
+ * @param {number} error The error code.
+ * @param {number} [info] The failure info code, which tells the check that
+ *     failed. Only emitted in `Failure` events.
+ * @param {number} [detail] The failure detail. For `COMPTROLLER_REJECTION`
+ *     failures of a cToken, it is the error code of the Comptroller, which is
+ *     decoded into the description and hint.
+ *
+ * @returns {ProtocolFailure} Returns the codes with their names, a
+ *     description and a hint to fix the failure, if any.
+ *
+ * @example
+ *
+ * ```
+ * const failure = Tropykus.errors.decodeFailure('cToken', 3, 14, 4);
+ * console.log(failure.infoName, failure.description);
+ * // BORROW_COMPTROLLER_REJECTION The action would violate the comptroller
+ * // policy: the account does not have sufficient liquidity to perform this
+ * // action.
+ * ```
+ */
+export function decodeFailure(
+	source: "comptroller" | "cToken",
+	error: number,
+	info: number | null = null,
+	detail = 0
+): ProtocolFailure {
+	const catalog = errorCodes[source];
+	const code = catalog.codes[error] || {
+		error: "UNKNOWN",
+		description: "Unknown error code " + error + ".",
+		hint: "",
+	};
+
+	let description = code.description;
+	let hint = code.hint;
+
+	const comptrollerCode = errorCodes.comptroller.codes[detail];
+	if (
+		source === "cToken" &&
+		code.error === "COMPTROLLER_REJECTION" &&
+		comptrollerCode
+	) {
+		description =
+			description.slice(0, -1) +
+			": " +
+			comptrollerCode.description[0].toLowerCase() +
+			comptrollerCode.description.slice(1);
+		hint = comptrollerCode.hint || hint;
+	}
+
+	return {
+		source,
+		error,
+		errorName: code.error,
+		info,
+		infoName: info === null ? null : catalog.info[info] || "UNKNOWN",
+		detail,
+		description,
+		hint,
+	};
+}
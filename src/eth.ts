@@ -4,8 +4,18 @@
  */
 
 import { ethers } from 'ethers';
-import { AbiItem, CallOptions, Provider, ProviderNetwork } from './types';
+import { address, abi as abis } from './constants';
+import {
+  decodeFailure, RevertedError, RpcError, TransactionDroppedError,
+  TransactionFailedError, TransactionReplacedError, UserRejectedError,
+  ValidationError
+} from './errors';
+import {
+  AbiItem, CallOptions, EventOptions, ProtocolFailure, Provider,
+  ProviderNetwork, TrxStatus
+} from './types';
 import { getNetNameWithChainId } from './util';
+import { getGasPrices } from './gas';
 
 enum JsonRpc {
   EthSendTransaction,
@@ -13,6 +23,384 @@ enum JsonRpc {
   // NetVersion,
 }
 
+// Most calls the Multicall contract aggregates into a single `eth_call`
+const maxBatchSize = 100;
+
+// Chain IDs of RSK mainnet and testnet, the networks with a minimum gas price
+const rskChainIds = [ 30, 31 ];
+
+// Most blocks queried by a single `eth_getLogs` in `getEvents`
+const defaultBlockRange = 10000;
+
+// Milliseconds between the checks of `waitForConfirmations` for a dropped
+//     transaction, about one RSK block
+const defaultPollingInterval = 30000;
+
+// Consecutive checks a transaction must be missing in to be dropped, as a
+//     node may not return a transaction right after it was sent
+const droppedChecks = 2;
+
+interface BatchedCall {
+  address: string;
+  method: string;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  parameters: any[];
+  options: CallOptions;
+  contract: ethers.Contract;
+  fragment: ethers.utils.FunctionFragment;
+  callData: string;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  resolve: (result: any) => void;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  reject: (error: any) => void;
+}
+
+const batchingProviders = new WeakSet<Provider>();
+const pendingBatches = new Map<Provider, BatchedCall[]>();
+const multicallAddresses = new WeakMap<Provider, Promise<string | undefined>>();
+const urlProviders = new Map<string, Provider>();
+
+// Most recently used URL providers kept for batched reads, so reads to many
+// URLs do not keep a provider for each of them.
+const maxUrlProviders = 16;
+
+// The event the Comptroller and cTokens emit when they return an error code
+const failureInterface = new ethers.utils.Interface([
+  'event Failure(uint256 error, uint256 info, uint256 detail)'
+]);
+
+/**
+ * Creates the Ethers.js contract object used to invoke `method`. When no ABI
+ *     is passed in the options, `method` is the member definition and the
+ *     returned method name is the one Ethers.js derived from it.
+ *
+ * @hidden
+ *
+ * @returns {any[]} Returns the Ethers.js contract and the name of the member.
+ */
+function _getContract(
+  address: string,
+  method: string,
+  provider: Provider,
+  options: CallOptions
+) : [ ethers.Contract, string ] {
+  let contract;
+  let abi: string | string[] | AbiItem[];
+  if (options.abi) {
+    // Assumes `method` is a string of the member name
+    // Assumes `abi` is a JSON object
+    abi = options.abi;
+    contract = new ethers.Contract(address, abi, provider);
+  } else {
+    // Assumes `method` is a string of the member definition
+    abi = [ method ];
+    contract = new ethers.Contract(address, abi, provider);
+    method = Object.keys(contract.functions)[1];
+  }
+
+  return [ contract, method ];
+}
+
+/**
+ * Wraps an error of Ethers.js or the provider in the class of its kind: a
+ *     rejection of the user in the wallet, a revert, or any other JSON RPC
+ *     failure.
+ *
+ * @hidden
+ *
+ * @returns {RpcError} Returns the error to reject with.
+ */
+function _rpcError(
+  jsonRpcMethod: string,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  error: any,
+  method: string,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  parameters: any[]
+) : RpcError {
+  const message = 'Error occurred during [' + jsonRpcMethod + ']. See {error}.';
+  const code = error && (error.code || (error.error && error.error.code));
+  const text = String((error && error.message) || '');
+
+  if (
+    code === 4001 || code === 'ACTION_REJECTED' ||
+    /user (rejected|denied)/i.test(text)
+  ) {
+    return new UserRejectedError(message, error, method, parameters);
+  }
+
+  if (
+    code === 'CALL_EXCEPTION' || code === 'UNPREDICTABLE_GAS_LIMIT' ||
+    /revert/i.test(text)
+  ) {
+    return new RevertedError(
+      message, error, method, parameters, (error && error.reason) || null
+    );
+  }
+
+  return new RpcError(message, error, method, parameters);
+}
+
+/**
+ * Wraps the `wait` of a transaction response, so that a transaction mined
+ *     with `Failure` events is rejected with a `TransactionFailedError`, like
+ *     a reverted one. The Comptroller and cTokens return an error code instead
+ *     of reverting for most failures, and emit the event.
+ *
+ * @hidden
+ *
+ * @returns {any} Returns the transaction response.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function _rejectFailures(response: any) : any {
+  if (!response || typeof response.wait !== 'function') {
+    return response;
+  }
+
+  const wait = response.wait;
+  const failureTopic = failureInterface.getEventTopic('Failure');
+
+  response.wait = (confirmations?: number) => wait(confirmations).then(
+    (receipt) => {
+      const failures: ProtocolFailure[] = (receipt.logs || [])
+        .filter((log) => log.topics[0] === failureTopic)
+        .map((log) => {
+          const { error, info, detail } = failureInterface.parseLog(log).args;
+          const isComptroller = Object.values(address).some(
+            (contracts) => contracts.Comptroller &&
+              contracts.Comptroller.toLowerCase() === log.address.toLowerCase()
+          );
+
+          return {
+            ...decodeFailure(
+              isComptroller ? 'comptroller' : 'cToken',
+              Number(error),
+              Number(info),
+              Number(detail)
+            ),
+            address: log.address,
+          };
+        });
+
+      if (failures.length > 0) {
+        throw new TransactionFailedError(
+          'Transaction ' + receipt.transactionHash + ' failed with ' +
+            failures[0].infoName + ' (' + failures[0].errorName + '). ' +
+            failures[0].description,
+          failures,
+          receipt
+        );
+      }
+
+      return receipt;
+    }
+  );
+
+  return response;
+}
+
+/**
+ * Reads the status of a sent transaction: `mined` once it has a receipt,
+ *     `replaced` if another transaction with its nonce was mined, `pending`
+ *     while the node knows it and `dropped` otherwise.
+ *
+ * @hidden
+ *
+ * @returns {Promise<TrxStatus>} Returns the status of the transaction.
+ */
+async function _transactionStatus(
+  provider: ethers.providers.Provider,
+  response: ethers.providers.TransactionResponse
+) : Promise<TrxStatus> {
+  const receipt = await provider.getTransactionReceipt(response.hash);
+  if (receipt && receipt.blockNumber) {
+    return 'mined';
+  }
+
+  const [ transaction, nonce ] = await Promise.all([
+    provider.getTransaction(response.hash),
+    provider.getTransactionCount(response.from, 'latest'),
+  ]);
+
+  if (nonce > response.nonce) {
+    return 'replaced';
+  }
+
+  return transaction ? 'pending' : 'dropped';
+}
+
+/**
+ * Sends a transaction with the nonce of a pending one and a higher gas price,
+ *     so that nodes replace the pending one with it. The `reason` is the one
+ *     the replaced transaction is rejected with when the replacement is
+ *     mined.
+ *
+ * @hidden
+ *
+ * @returns {Promise<any>} Returns the transaction handle of the replacement.
+ */
+async function _replaceTransaction(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  response: any,
+  signer: ethers.Signer,
+  transaction: ethers.providers.TransactionRequest,
+  gasPrice: number | string | ethers.BigNumber | undefined,
+  method: string,
+  reason: string
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+) : Promise<any> {
+  const errorPrefix = 'Compound [' + method + '] | ';
+  const currentGasPrice = ethers.BigNumber.from(
+    response.gasPrice || response.maxFeePerGas || 0
+  );
+
+  // Nodes only accept a replacement that pays at least 10% more.
+  const newGasPrice = gasPrice === undefined ?
+    currentGasPrice.mul(11).div(10).add(1) :
+    ethers.BigNumber.from(gasPrice.toString());
+
+  if (newGasPrice.lte(currentGasPrice)) {
+    throw new ValidationError(
+      errorPrefix + 'Argument `gasPrice` must be higher than the gas price ' +
+        'of the transaction.'
+    );
+  }
+
+  let replacement;
+  try {
+    replacement = await signer.sendTransaction({
+      ...transaction,
+      nonce: response.nonce,
+      gasPrice: newGasPrice,
+    });
+  } catch (error) {
+    throw _rpcError('eth_sendTransaction', error, method, [ newGasPrice ]);
+  }
+
+  const handle = _transactionHandle(_rejectFailures(replacement), signer);
+
+  // Tells `waitForConfirmations` of the replaced transaction what replaced it
+  response._replacedBy = { reason, replacement: handle };
+
+  return handle;
+}
+
+/**
+ * Adds the methods that follow a sent transaction to its response:
+ *     `getStatus`, `waitForConfirmations`, which also rejects if the
+ *     transaction was replaced or dropped, and `speedUp` and `cancel`, which
+ *     send a replacement with the same nonce and a higher gas price.
+ *
+ * @hidden
+ *
+ * @returns {any} Returns the transaction response.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function _transactionHandle(response: any, signer: any) : any {
+  if (!response || typeof response.wait !== 'function') {
+    return response;
+  }
+
+  const provider = signer.provider || signer;
+  const wait = response.wait;
+
+  response.getStatus = () => _transactionStatus(provider, response);
+
+  response.waitForConfirmations = (
+    confirmations = 1,
+    pollingInterval = defaultPollingInterval
+  ) => new Promise((resolve, reject) => {
+    let settled = false;
+    let checking = false;
+    let lastStatus: TrxStatus = 'pending';
+    let checks = 0;
+
+    const settle = (error, receipt?) => {
+      if (!settled) {
+        settled = true;
+        clearInterval(timer);
+        if (error) {
+          reject(error);
+        } else {
+          resolve(receipt);
+        }
+      }
+    };
+
+    // Ethers.js only detects the replacements it can find in the blocks, and
+    //     waits forever for a dropped transaction.
+    const timer = setInterval(() => {
+      if (checking) {
+        return;
+      }
+
+      checking = true;
+      response.getStatus().then(async (status: TrxStatus) => {
+        checks = status === lastStatus ? checks + 1 : 1;
+        lastStatus = status;
+
+        if (checks < droppedChecks) {
+          return;
+        }
+
+        if (status === 'dropped') {
+          settle(new TransactionDroppedError(
+            'Transaction ' + response.hash + ' was dropped.', response.hash
+          ));
+        } else if (status === 'replaced') {
+          const { reason, replacement } = response._replacedBy || {
+            reason: 'replaced', replacement: null
+          };
+          const receipt = replacement ?
+            await provider.getTransactionReceipt(replacement.hash) : null;
+
+          settle(new TransactionReplacedError(
+            'Transaction ' + response.hash + ' was ' + reason +
+              (replacement ? ' by ' + replacement.hash : '') + '.',
+            reason,
+            replacement,
+            receipt
+          ));
+        }
+      }).catch(() => undefined).then(() => (checking = false));
+    }, pollingInterval);
+
+    wait(confirmations).then((receipt) => settle(null, receipt)).catch(
+      (error) => {
+        if (error && error.code === ethers.errors.TRANSACTION_REPLACED) {
+          settle(new TransactionReplacedError(
+            'Transaction ' + response.hash + ' was ' + error.reason + ' by ' +
+              error.replacement.hash + '.',
+            error.reason,
+            error.replacement,
+            error.receipt,
+            error
+          ));
+        } else {
+          settle(error);
+        }
+      }
+    );
+  });
+
+  response.speedUp = (gasPrice?: number | string | ethers.BigNumber) =>
+    _replaceTransaction(response, signer, {
+      to: response.to,
+      data: response.data,
+      value: response.value,
+      gasLimit: response.gasLimit,
+    }, gasPrice, 'speedUp', 'repriced');
+
+  response.cancel = (gasPrice?: number | string | ethers.BigNumber) =>
+    _replaceTransaction(response, signer, {
+      to: response.from,
+      value: 0,
+      gasLimit: 21000,
+    }, gasPrice, 'cancel', 'cancelled');
+
+  return response;
+}
+
 /**
  * This is a generic method for invoking JSON RPC's `eth_call` or `eth_send` 
  *     with Ethers.js. This function supports the public `read` and `trx`
@@ -30,7 +418,7 @@ enum JsonRpc {
  * @hidden
  *
  * @returns {Promise<any>} Return value of the invoked smart contract member 
- *     or an error object if the call failed.
+ *     or an `RpcError` if the call failed.
  */
 function _ethJsonRpc(
   jsonRpcMethod: JsonRpc,
@@ -58,31 +446,30 @@ function _ethJsonRpc(
     parameters.push(overrides);
 
     let contract;
-    let abi: string | string[] | AbiItem[];
-    if (options.abi) {
-      // Assumes `method` is a string of the member name
-      // Assumes `abi` is a JSON object
-      abi = options.abi;
-      contract = new ethers.Contract(address, abi, provider);
-    } else {
-      // Assumes `method` is a string of the member definition
-      abi = [ method ];
-      contract = new ethers.Contract(address, abi, provider);
-      method = Object.keys(contract.functions)[1];
-    }
+    [ contract, method ] = _getContract(address, method, provider, options);
 
     if (jsonRpcMethod === JsonRpc.EthSendTransaction) {
-      contract[method].apply(null, parameters).then((result) => {
-        resolve(result);
+      // Without a `gasPrice`, transactions on RSK pay the standard
+      //     suggestion, so they are not rejected below its minimum gas price.
+      //     On other networks, and if the suggestion fails, the provider
+      //     picks the fees.
+      const gasPrice = options.gasPrice !== undefined ?
+        Promise.resolve(options.gasPrice) :
+        getProviderNetwork(provider).then((network) => (
+          rskChainIds.includes(network.id) ?
+            getGasPrices(provider).then((prices) => prices.standard) :
+            undefined
+        )).catch(() => undefined);
+
+      gasPrice.then((price) => {
+        overrides.gasPrice = price;
+        return contract[method].apply(null, parameters);
+      }).then((result) => {
+        resolve(_transactionHandle(_rejectFailures(result), contract.signer));
       }).catch((error) => {
         try { delete parameters[parameters.length-1].privateKey } catch(e) {}
         try { delete parameters[parameters.length-1].mnemonic   } catch(e) {}
-        reject({
-          message: 'Error occurred during [eth_sendTransaction]. See {error}.',
-          error,
-          method,
-          parameters,
-        });
+        reject(_rpcError('eth_sendTransaction', error, method, parameters));
       });
     } else if (jsonRpcMethod === JsonRpc.EthCall) {
       contract.callStatic[method].apply(null, parameters).then((result) => {
@@ -90,17 +477,184 @@ function _ethJsonRpc(
       }).catch((error) => {
         try { delete parameters[parameters.length-1].privateKey } catch(e) {}
         try { delete parameters[parameters.length-1].mnemonic   } catch(e) {}
-        reject({
-          message: 'Error occurred during [eth_call]. See {error}.',
-          error,
-          method,
-          parameters,
-        });
+        reject(_rpcError('eth_call', error, method, parameters));
+      });
+    }
+  });
+}
+
+/**
+ * Looks up the Multicall contract of the provider's network in the `address`
+ *     map. The lookup is done once per provider.
+ *
+ * @hidden
+ *
+ * @returns {Promise<string | undefined>} Returns the Multicall address, or
+ *     `undefined` if the network has none.
+ */
+function _getMulticallAddress(provider: Provider) : Promise<string | undefined> {
+  if (!multicallAddresses.has(provider)) {
+    multicallAddresses.set(provider, getProviderNetwork(provider).then(
+      (network) => (address[getNetNameWithChainId(network.id)] || {}).Multicall
+    ).catch(() => undefined));
+  }
+
+  return multicallAddresses.get(provider);
+}
+
+/**
+ * Sends the calls queued for a provider in a single Multicall `tryAggregate`
+ *     `eth_call`. Calls are sent on their own when the network has no
+ *     Multicall contract, or when the aggregate call itself fails.
+ *
+ * @hidden
+ */
+async function _flushBatch(provider: Provider) : Promise<void> {
+  const queue = pendingBatches.get(provider) || [];
+  pendingBatches.delete(provider);
+
+  const sendEach = (calls: BatchedCall[]) => calls.forEach((call) => {
+    _ethJsonRpc(
+      JsonRpc.EthCall, call.address, call.method, call.parameters, call.options
+    ).then(call.resolve, call.reject);
+  });
+
+  const multicallAddress = await _getMulticallAddress(provider);
+
+  if (!multicallAddress || queue.length === 1) {
+    sendEach(queue);
+    return;
+  }
+
+  const multicall = new ethers.Contract(
+    multicallAddress, abis.Multicall, provider
+  );
+
+  for (let i = 0; i < queue.length; i += maxBatchSize) {
+    const calls = queue.slice(i, i + maxBatchSize);
+
+    multicall.callStatic.tryAggregate(
+      false, calls.map((call) => [ call.address, call.callData ])
+    ).then((results) => {
+      results.forEach(([ success, returnData ], j) => {
+        const call = calls[j];
+        try {
+          if (!success) {
+            throw Error('Call reverted in Multicall aggregate.');
+          }
+
+          const result = call.contract.interface.decodeFunctionResult(
+            call.fragment, returnData
+          );
+          call.resolve(call.fragment.outputs.length === 1 ? result[0] : result);
+        } catch (error) {
+          call.reject(_rpcError(
+            'eth_call', error, call.fragment.name, call.parameters
+          ));
+        }
       });
+    }).catch(() => sendEach(calls));
+  }
+}
+
+/**
+ * Queues an `eth_call` to a `view` or `pure` method to be aggregated with the
+ *     other calls made for the same provider within the current tick. Calls
+ *     to other methods are sent on their own.
+ *
+ * @hidden
+ *
+ * @returns {Promise<any>} Return value of the invoked smart contract member
+ *     or an `RpcError` if the call failed.
+ */
+function _batchedRead(
+  address: string,
+  method: string,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  parameters: any[],
+  options: CallOptions,
+  provider: Provider
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+): Promise<any> {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  return new Promise<any>((resolve, reject) => {
+    let contract, fragment, callData;
+    try {
+      let name;
+      [ contract, name ] = _getContract(address, method, provider, options);
+      fragment = contract.interface.getFunction(name);
+      callData = contract.interface.encodeFunctionData(fragment, parameters);
+    } catch (error) {
+      reject(_rpcError('eth_call', error, method, parameters));
+      return;
+    }
+
+    // Simulations of state-changing methods, like `borrowBalanceCurrent` or
+    //     a `mint`, depend on `msg.sender` and would see the state changes of
+    //     the calls before them in the aggregate, so they are sent alone.
+    if (!fragment.constant) {
+      _ethJsonRpc(JsonRpc.EthCall, address, method, parameters, {
+        ...options, _compoundProvider: provider
+      }).then(resolve, reject);
+      return;
     }
+
+    if (!pendingBatches.has(provider)) {
+      pendingBatches.set(provider, []);
+      setTimeout(() => _flushBatch(provider), 0);
+    }
+
+    pendingBatches.get(provider).push({
+      address,
+      method,
+      parameters,
+      options: { ...options, _compoundProvider: provider },
+      contract,
+      fragment,
+      callData,
+      resolve,
+      reject,
+    });
   });
 }
 
+/**
+ * Turns the batching of `read` calls on or off for a provider. While it is
+ *     on, the `read` calls to `view` and `pure` methods made within one tick
+ *     are aggregated into a single `eth_call` to the Multicall contract of the
+ *     network (see the `Multicall` entry of the `address` map in the
+ *     constants). Calls with a `blockTag`, `from` or `value` override and
+ *     calls to methods that are not `view` or `pure` are never batched. Use
+ *     the `batch` option of the SDK constructor to batch the calls of an
+ *     instance.
+ *
+ * In a batch, the Multicall contract makes the calls, so `msg.sender` is the
+ *     Multicall contract and not the address of a signer. Do not batch a
+ *     provider whose reads depend on the caller.
+ *
+ * @param {Provider} provider The Ethers.js provider or signer to batch calls
+ *     for.
+ * @param {boolean} [enabled] Whether the calls are batched. Defaults to true.
+ *
+ * @example
+ * ```
+ * const provider = new ethers.providers.JsonRpcProvider('https://public-node.rsk.co');
+ * Tropykus.eth.setBatching(provider);
+ *
+ * const [ cash, borrows ] = await Promise.all([
+ *   Tropykus.eth.read(kDocAddress, 'function getCash() view returns (uint)', [], { provider }),
+ *   Tropykus.eth.read(kDocAddress, 'function totalBorrows() view returns (uint)', [], { provider }),
+ * ]); // a single eth_call
+ * ```
+ */
+export function setBatching(provider: Provider, enabled = true) : void {
+  if (enabled) {
+    batchingProviders.add(provider);
+  } else {
+    batchingProviders.delete(provider);
+  }
+}
+
 /**
  * This is a generic method for invoking JSON RPC's `eth_call` with Ethers.js. 
  *     Use this method to execute a smart contract's constant or non-constant 
@@ -116,8 +670,9 @@ function _ethJsonRpc(
  *     of the single intended method, an array of many methods, or a JSON object
  *     of the ABI generated by a Solidity compiler.
  *
- * @returns {Promise<any>} Return value of the invoked smart contract member or an error 
- *     object if the call failed.
+ * @returns {Promise<any>} Return value of the invoked smart contract member. 
+ *     Rejects with an `RpcError` if the call failed, a `RevertedError` if it
+ *     reverted.
  *
  * @example
  * ```
@@ -145,6 +700,35 @@ export function read(
   options: CallOptions = {}
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
 ) : Promise<any> {
+  const provider = options._compoundProvider || options.provider;
+  const batched = options.batch === undefined
+    ? typeof provider === 'object' && batchingProviders.has(provider)
+    : options.batch;
+  const hasOverrides = options.blockTag !== undefined ||
+    options.from !== undefined || options.value !== undefined;
+
+  const isEthersObject = typeof provider === 'object' &&
+    (provider._isSigner || provider._isProvider);
+
+  if (batched && !hasOverrides && (isEthersObject || typeof provider !== 'object')) {
+    let batchProvider = provider;
+    if (typeof batchProvider !== 'object') {
+      // Calls to the same URL or network share a provider, and so a batch
+      const key = batchProvider || options.network || 'mainnet';
+      batchProvider = urlProviders.get(key) ||
+        _createProvider({ provider: key });
+
+      // Re-inserting moves the key last, the least recently used is first
+      urlProviders.delete(key);
+      urlProviders.set(key, batchProvider);
+      if (urlProviders.size > maxUrlProviders) {
+        urlProviders.delete(urlProviders.keys().next().value);
+      }
+    }
+
+    return _batchedRead(address, method, parameters, options, batchProvider);
+  }
+
   return _ethJsonRpc(JsonRpc.EthCall, address, method, parameters, options);
 }
 
@@ -159,10 +743,16 @@ export function read(
  * @param {CallOptions} [options] Options to set for `eth_sendTransaction`, 
  *     (as JSON object), and Ethers.js method overrides. The ABI can be a string
  *     optional ABI of the single intended method, an array of many methods, or 
- *     a JSON object of the ABI generated by a Solidity compiler.
+ *     a JSON object of the ABI generated by a Solidity compiler. Without a
+ *     `gasPrice`, a transaction on RSK pays the `standard` price of
+ *     `Tropykus.gas.getGasPrices`, and on other networks the provider picks
+ *     the fees.
  *
- * @returns {Promise<any>} Returns an Ethers.js `TransactionResponse` object or an error 
- *     object if the transaction failed.
+ * @returns {Promise<any>} Returns an Ethers.js `TransactionResponse` object,
+ *     with the `getStatus`, `waitForConfirmations`, `speedUp` and `cancel`
+ *     methods to follow and replace the pending transaction. Rejects with
+ *     an `RpcError` if the transaction failed, a `RevertedError` if it would
+ *     revert or a `UserRejectedError` if the user rejected it.
  *
  * @example
  * ```
@@ -201,6 +791,127 @@ export function trx(
   return _ethJsonRpc(JsonRpc.EthSendTransaction, address, method, parameters, options);
 }
 
+/**
+ * Resolves a block tag to a block number: numbers as they are, decimal and
+ *     hexadecimal strings parsed, `"earliest"` as 0, and `"latest"` and
+ *     `"pending"` as the latest block of the provider.
+ *
+ * @param {number | string} blockTag The block number or tag.
+ * @param {Provider} provider The Ethers.js provider or signer.
+ *
+ * @hidden
+ *
+ * @returns {Promise<number>} Returns the block number, or a
+ *     `ValidationError` if the tag is not a block number or tag, or an
+ *     `RpcError` if the latest block could not be read.
+ */
+export async function getBlockNumber(
+  blockTag: number | string,
+  provider: Provider
+) : Promise<number> {
+  if (typeof blockTag === 'number' && Number.isInteger(blockTag)) {
+    return blockTag;
+  }
+
+  if (blockTag === 'earliest') {
+    return 0;
+  }
+
+  if (blockTag === 'latest' || blockTag === 'pending') {
+    try {
+      return await (provider._isSigner ? provider.provider : provider)
+        .getBlockNumber();
+    } catch (error) {
+      throw _rpcError('eth_blockNumber', error, 'getBlockNumber', []);
+    }
+  }
+
+  if (typeof blockTag === 'string' && /^(0x[0-9a-f]+|[0-9]+)$/i.test(blockTag)) {
+    return parseInt(blockTag);
+  }
+
+  throw new ValidationError(
+    'Compound [getBlockNumber] | `' + blockTag + '` is not a block number ' +
+      'or tag.'
+  );
+}
+
+/**
+ * Fetches the logs of a smart contract event over a block range with
+ *     `eth_getLogs`, decoded with the ABI. Large ranges are queried in chunks
+ *     of `blockRange` blocks, one after the other, since nodes limit the
+ *     blocks or results of a single query.
+ *
+ * @param {string | string[]} address The Ethereum address of the contract, or
+ *     an array of addresses of contracts with the same ABI.
+ * @param {string} eventName The name of the event in the ABI.
+ * @param {EventOptions} options The `fromBlock` (required, as scanning from
+ *     the genesis block takes thousands of queries), `toBlock` (defaults to
+ *     the latest block) and `blockRange` of the query, the `args` to filter
+ *     the indexed parameters of the event by, the ABI and the provider. The
+ *     blocks can be numbers, decimal or hexadecimal strings or tags like
+ *     `"latest"`.
+ *
+ * @returns {Promise<ethers.Event[]>} Returns the Ethers.js event objects, in
+ *     the order they were emitted for each address, a `ValidationError` if
+ *     `fromBlock` is missing or a block is not a block number or tag, or an
+ *     `RpcError` if a query failed.
+ *
+ * @example
+ * ```
+ * const cEthAddress = Compound.util.getAddress(Compound.cETH);
+ *
+ * (async function() {
+ *
+ *   const events = await Compound.eth.getEvents(cEthAddress, 'Borrow', {
+ *     abi: 'event Borrow(address borrower, uint borrowAmount, uint accountBorrows, uint totalBorrows)',
+ *     fromBlock: 12000000,
+ *     toBlock: 12100000,
+ *   });
+ *
+ *   console.log('Borrowers', events.map(e => e.args.borrower));
+ *
+ * })().catch(console.error);
+ * ```
+ */
+export async function getEvents(
+  address: string | string[],
+  eventName: string,
+  options: EventOptions = {}
+) : Promise<ethers.Event[]> {
+  const addresses = Array.isArray(address) ? address : [ address ];
+  const provider = options._compoundProvider || _createProvider(options);
+  const blockRange = options.blockRange || defaultBlockRange;
+
+  if (options.fromBlock === undefined || options.fromBlock === null) {
+    throw new ValidationError(
+      'Compound [getEvents] | Option `fromBlock` is required.'
+    );
+  }
+
+  const fromBlock = await getBlockNumber(options.fromBlock, provider);
+  const toBlock = await getBlockNumber(
+    options.toBlock === undefined ? 'latest' : options.toBlock,
+    provider
+  );
+
+  const events = [];
+  try {
+    for (let i = 0; i < addresses.length; i++) {
+      const contract = new ethers.Contract(addresses[i], options.abi, provider);
+      const filter = contract.filters[eventName](...(options.args || []));
+      for (let start = fromBlock; start <= toBlock; start += blockRange) {
+        const end = Math.min(start + blockRange - 1, toBlock);
+        events.push(...await contract.queryFilter(filter, start, end));
+      }
+    }
+  } catch (error) {
+    throw _rpcError('eth_getLogs', error, eventName, addresses);
+  }
+
+  return events;
+}
+
 /**
  * This helps the Compound.js constructor discover which Ethereum network the
  *     developer wants to use.
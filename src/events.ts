@@ -0,0 +1,334 @@
+/**
+ * @file Events
+ * @desc These methods subscribe to the events of the Comptroller and the
+ *     cToken markets, with decoded and decimal-normalized payloads.
+ */
+
+import { ethers } from "ethers";
+import * as eth from "./eth";
+import { netId, getMarket, getMarkets } from "./helpers";
+import { address, abi, decimals } from "./constants";
+import {
+	EventSubscriptionFilter,
+	MarketInfo,
+	ProtocolEvent,
+	ProtocolEventHandler,
+	Subscription,
+} from "./types";
+import { getNetNameWithChainId } from "./util";
+import { ValidationError } from "./errors";
+
+// Milliseconds between `eth_getLogs` polls, about one RSK block
+const defaultPollingInterval = 30000;
+
+// Event arguments in the underlying asset of the market
+const underlyingArgs = [
+	"mintAmount",
+	"redeemAmount",
+	"borrowAmount",
+	"accountBorrows",
+	"totalBorrows",
+	"repayAmount",
+	"interestAccumulated",
+	"cashPrior",
+	"addAmount",
+	"reduceAmount",
+	"newTotalReserves",
+	"newBorrowCap",
+];
+
+// Event arguments in cTokens
+const cTokenArgs = ["mintTokens", "redeemTokens", "seizeTokens"];
+
+// Event arguments that are codes, not amounts
+const codeArgs = ["error", "info", "detail"];
+
+/**
+ * Normalizes the arguments of a decoded event: amounts are divided by the
+ *     decimals of their unit and mantissas by 1e18.
+ *
+ * @hidden
+ *
+ * @param {ethers.utils.Result} args The decoded arguments.
+ * @param {ethers.utils.EventFragment} fragment The ABI of the event.
+ * @param {MarketInfo | null} market The market of the event, if any.
+ * @param {boolean} isCToken True if the event was emitted by the cToken.
+ *
+ * @returns {object} Returns the arguments by name.
+ */
+function normalizeArgs(
+	args: ethers.utils.Result,
+	fragment: ethers.utils.EventFragment,
+	market: MarketInfo | null,
+	isCToken: boolean
+) {
+	const normalized = {};
+
+	fragment.inputs.forEach((input, i) => {
+		const value = args[i];
+
+		if (!input.type.startsWith("uint")) {
+			normalized[input.name] = value;
+		} else if (codeArgs.includes(input.name)) {
+			normalized[input.name] = Number(value);
+		} else if (market && underlyingArgs.includes(input.name)) {
+			normalized[input.name] =
+				Number(value) / Math.pow(10, decimals[market.underlying]);
+		} else if (
+			market &&
+			(cTokenArgs.includes(input.name) || (isCToken && input.name === "amount"))
+		) {
+			normalized[input.name] =
+				Number(value) / Math.pow(10, decimals[market.cTokenName]);
+		} else {
+			normalized[input.name] = Number(value) / 1e18;
+		}
+	});
+
+	return normalized;
+}
+
+/**
+ * Checks if an event matches the `args` of a subscription filter. Addresses
+ *     are compared case-insensitively.
+ *
+ * @hidden
+ *
+ * @param {ProtocolEvent} event The normalized event.
+ * @param {EventSubscriptionFilter} filter The filter of the subscription.
+ *
+ * @returns {boolean} Returns true if every argument of the filter matches.
+ */
+function matchesFilter(
+	event: ProtocolEvent,
+	filter: EventSubscriptionFilter
+): boolean {
+	const args = filter.args || {};
+
+	return Object.keys(args).every((name) => {
+		const expected = args[name];
+		const actual = event.args[name];
+
+		if (typeof expected === "string" && typeof actual === "string") {
+			return expected.toLowerCase() === actual.toLowerCase();
+		}
+
+		return expected === actual;
+	});
+}
+
+/**
+ * Subscribes to an event of the Comptroller or the cToken markets. WebSocket
+ *     providers push the events as they are mined; other providers are polled
+ *     with `eth_getLogs` every `pollingInterval` milliseconds (30 seconds by
+ *     default), starting from the next block.
+ *
+ * Amounts in the payload are normalized: amounts of the underlying asset and
+ *     cTokens are divided by their decimals, and mantissas by 1e18. The
+ *     `market` of the payload is the cToken name of the emitter, or of the
+ *     `cToken` argument of Comptroller events.
+ *
+ * @param {string} eventName The name of the event, like `Mint`, `Borrow`,
+ *     `AccrueInterest` or `MarketEntered`.
+ * @param {EventSubscriptionFilter | ProtocolEventHandler} filter The
+ *     `markets` to listen to (cToken events only, defaults to all), the `args`
+ *     the events must match, the `pollingInterval` and an `onError` callback
+ *     for the errors of the handler and the polls. Can be omitted.
+ * @param {ProtocolEventHandler} [handler] The function called with each
+ *     event.
+ *
+ * @returns {function} Returns a function that ends this subscription only.
+ *
+ * @example
+ *
+ * ```
+ * const tropykus = new Tropykus('wss://public-node.rsk.co/websocket');
+ *
+ * (async function () {
+ *   const unsubscribe = await tropykus.on(
+ *     'Borrow',
+ *     { markets: [Tropykus.DOC] },
+ *     (e) => console.log(e.args.borrower, 'borrowed', e.args.borrowAmount, 'DOC')
+ *   );
+ * })().catch(console.error);
+ * ```
+ */
+export async function on(
+	eventName: string,
+	filter: EventSubscriptionFilter | ProtocolEventHandler,
+	handler?: ProtocolEventHandler
+): Promise<() => void> {
+	await netId(this);
+	const errorPrefix = "Compound [on] | ";
+
+	if (typeof filter === "function") {
+		handler = filter;
+		filter = {};
+	}
+
+	filter = filter || {};
+
+	if (typeof handler !== "function") {
+		throw new ValidationError(
+			errorPrefix + "Argument `handler` must be a function."
+		);
+	}
+
+	const comptrollerAddress =
+		address[getNetNameWithChainId(this._network.id)].Comptroller;
+	const comptrollerInterface = new ethers.utils.Interface(abi.Comptroller);
+	const cTokenInterface = new ethers.utils.Interface(abi.cErc20);
+
+	const isEvent = (contractInterface: ethers.utils.Interface) =>
+		Object.values(contractInterface.events).some((e) => e.name === eventName);
+
+	let addresses: string[];
+	let contractInterface: ethers.utils.Interface;
+	if (isEvent(cTokenInterface)) {
+		const markets = filter.markets
+			? filter.markets.map((m) => getMarket(this, m, errorPrefix))
+			: getMarkets(this);
+		addresses = markets.map((m) => m.cTokenAddress);
+		contractInterface = cTokenInterface;
+	} else if (isEvent(comptrollerInterface)) {
+		addresses = [comptrollerAddress];
+		contractInterface = comptrollerInterface;
+	} else {
+		throw new ValidationError(
+			errorPrefix +
+				"Argument `eventName` is not an event of the Comptroller or the cTokens."
+		);
+	}
+
+	const fragment = contractInterface.getEvent(eventName);
+	const topic = contractInterface.getEventTopic(fragment);
+
+	const { onError } = filter as EventSubscriptionFilter;
+	const reportError = (error: Error) => onError && onError(error);
+
+	const dispatch = (log: ethers.providers.Log) => {
+		const args = contractInterface.decodeEventLog(
+			fragment,
+			log.data,
+			log.topics
+		);
+		const isCToken = contractInterface === cTokenInterface;
+		const marketAddress = isCToken ? log.address : args.cToken;
+
+		const market =
+			getMarkets(this).find(
+				(m) =>
+					typeof marketAddress === "string" &&
+					m.cTokenAddress.toLowerCase() === marketAddress.toLowerCase()
+			) || null;
+
+		const event: ProtocolEvent = {
+			event: eventName,
+			market: market ? market.cTokenName : null,
+			address: log.address,
+			args: normalizeArgs(args, fragment, market, isCToken),
+			blockNumber: log.blockNumber,
+			transactionHash: log.transactionHash,
+			logIndex: log.logIndex,
+		};
+
+		if (matchesFilter(event, filter as EventSubscriptionFilter)) {
+			handler(event);
+		}
+	};
+
+	// A failing handler does not stop the events after it from being
+	//     dispatched.
+	const dispatchSafely = (log: ethers.providers.Log) => {
+		try {
+			dispatch(log);
+		} catch (error) {
+			reportError(error);
+		}
+	};
+
+	const provider = this._provider._isSigner
+		? this._provider.provider
+		: this._provider;
+
+	let stop: () => void;
+	if (provider instanceof ethers.providers.WebSocketProvider) {
+		const logFilters = addresses.map((a) => ({ address: a, topics: [topic] }));
+		logFilters.forEach((f) => provider.on(f, dispatchSafely));
+		stop = () => logFilters.forEach((f) => provider.off(f, dispatchSafely));
+	} else {
+		let fromBlock: number = (await provider.getBlockNumber()) + 1;
+		let polling = false;
+
+		const poll = async () => {
+			const toBlock = await provider.getBlockNumber();
+			if (toBlock < fromBlock) {
+				return;
+			}
+
+			const events = await eth.getEvents(addresses, eventName, {
+				_compoundProvider: this._provider,
+				abi: contractInterface.format("json") as string,
+				fromBlock,
+				toBlock,
+			});
+			events.sort((a, b) =>
+				a.blockNumber === b.blockNumber
+					? a.logIndex - b.logIndex
+					: a.blockNumber - b.blockNumber
+			);
+			events.forEach(dispatchSafely);
+			fromBlock = toBlock + 1;
+		};
+
+		// A failed poll is reported to `onError` and retried from the same block
+		//     on the next interval.
+		const timer = setInterval(() => {
+			if (!polling) {
+				polling = true;
+				poll()
+					.catch(reportError)
+					.then(() => (polling = false));
+			}
+		}, (filter as EventSubscriptionFilter).pollingInterval || defaultPollingInterval);
+
+		stop = () => clearInterval(timer);
+	}
+
+	const subscription: Subscription = { eventName, handler, stop };
+	this._subscriptions = (this._subscriptions || []).concat(subscription);
+
+	// Ends only this subscription, even if the handler has others.
+	return () => {
+		subscription.stop();
+		this._subscriptions = (this._subscriptions || []).filter(
+			(s: Subscription) => s !== subscription
+		);
+	};
+}
+
+/**
+ * Ends the subscriptions of a handler to an event, started with `on`.
+ *
+ * @param {string} eventName The name of the event.
+ * @param {ProtocolEventHandler} [handler] The handler of the subscriptions to
+ *     end. Ends all the subscriptions to the event when omitted.
+ *
+ * @example
+ *
+ * ```
+ * const handler = (e) => console.log(e);
+ * await tropykus.on('Mint', handler);
+ *
+ * tropykus.off('Mint', handler);
+ * ```
+ */
+export function off(eventName: string, handler?: ProtocolEventHandler): void {
+	const subscriptions: Subscription[] = this._subscriptions || [];
+
+	const isMatch = (s: Subscription) =>
+		s.eventName === eventName && (!handler || s.handler === handler);
+
+	subscriptions.filter(isMatch).forEach((s) => s.stop());
+	this._subscriptions = subscriptions.filter((s) => !isMatch(s));
+}
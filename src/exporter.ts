@@ -0,0 +1,302 @@
+/**
+ * @file Exporter
+ * @desc These methods turn the activity of an account in the protocol into
+ *     statements for accounting, with the USD value of every entry at its
+ *     block and the cost basis of every cToken position.
+ */
+
+import { ethers } from "ethers";
+import * as eth from "./eth";
+import { netId, getMarket, getUnderlyingPrice } from "./helpers";
+import { address, abi, decimals } from "./constants";
+import { getAccountHistory } from "./history";
+import { AccountHistoryEntry, StatementEntry, StatementOptions } from "./types";
+import { getNetNameWithChainId, toCsv } from "./util";
+import { RevertedError, RpcError, ValidationError } from "./errors";
+
+// Columns of the CSV statements, in order
+const csvColumns = [
+	"date",
+	"timestamp",
+	"blockNumber",
+	"transactionHash",
+	"event",
+	"asset",
+	"cToken",
+	"amount",
+	"cTokens",
+	"priceUsd",
+	"valueUsd",
+	"costBasisUsd",
+	"realizedGainUsd",
+	"counterparty",
+];
+
+/**
+ * Reads the rewards the Comptroller sent to an account, the transfers of the
+ *     reward token from the Comptroller.
+ *
+ * @hidden
+ *
+ * @param {string} account The address of the account.
+ * @param {StatementOptions} options The block range of the transfers and call
+ *     options for the `eth_getLogs` and `eth_call`s.
+ *
+ * @returns {AccountHistoryEntry[]} Returns the reward claims as history
+ *     entries, with the `RewardClaim` event and the symbol of the reward
+ *     token as their asset. Comptrollers without a reward token have none.
+ */
+async function readRewardClaims(
+	account: string,
+	options: StatementOptions
+): Promise<AccountHistoryEntry[]> {
+	const comptrollerAddress =
+		address[getNetNameWithChainId(this._network.id)].Comptroller;
+
+	// Comptrollers without a reward token revert on `getCompAddress` or return
+	//     the zero address.
+	let rewardAddress: string;
+	try {
+		rewardAddress = await eth.read(comptrollerAddress, "getCompAddress", [], {
+			...options,
+			_compoundProvider: this._provider,
+			abi: abi.Comptroller,
+		});
+	} catch (error) {
+		if (error instanceof RevertedError) {
+			return [];
+		}
+		throw error;
+	}
+
+	if (rewardAddress === ethers.constants.AddressZero) {
+		return [];
+	}
+
+	const trxOptions = {
+		...options,
+		_compoundProvider: this._provider,
+		abi: abi.Erc20,
+	};
+
+	const [rewardSymbol, rewardDecimals, transfers] = await Promise.all([
+		eth.read(rewardAddress, "symbol", [], trxOptions),
+		eth.read(rewardAddress, "decimals", [], trxOptions),
+		eth.getEvents(rewardAddress, "Transfer", {
+			...trxOptions,
+			args: [comptrollerAddress, account],
+		}),
+	]);
+
+	const provider = this._provider._isSigner
+		? this._provider.provider
+		: this._provider;
+
+	const claims: AccountHistoryEntry[] = [];
+	for (let i = 0; i < transfers.length; i++) {
+		const e = transfers[i];
+		const block = await provider.getBlock(e.blockNumber);
+
+		claims.push({
+			event: "RewardClaim",
+			asset: rewardSymbol,
+			cToken: null,
+			amount: Number(e.args._value) / Math.pow(10, rewardDecimals),
+			cTokens: 0,
+			counterparty: null,
+			blockNumber: e.blockNumber,
+			timestamp: block.timestamp,
+			transactionHash: e.transactionHash,
+			logIndex: e.logIndex,
+		});
+	}
+
+	return claims;
+}
+
+/**
+ * Builds the statement of the activity of an account: its supplies, redeems,
+ *     borrows, repayments, liquidations, cToken transfers and reward claims,
+ *     with the USD value of each entry from the price oracle at its block.
+ *
+ * The cost basis of a cToken position is the USD value of the supplies and
+ *     transfers in, averaged over its cTokens. Redeems and transfers out
+ *     reduce it proportionally and realize a gain of their value minus the
+ *     cost basis of their cTokens. Positions opened before `fromBlock` start
+ *     with no cost basis. Reward tokens without a market have no USD value.
+ *
+ * Entries whose price could not be read from the oracle have a `null`
+ *     `priceUsd` and `valueUsd` instead of failing the statement. They add no
+ *     cost basis and realize no gain, the cost basis of their cTokens still
+ *     leaves the position.
+ *
+ * @param {string} account The address of the account.
+ * @param {StatementOptions} options The `fromBlock` (required), `toBlock`
+ *     and `blockRange` of the statement, and call options for the
+ *     `eth_getLogs` and `eth_call`s. The oracle has to be read at past
+ *     blocks, which needs an archive node.
+ *
+ * @returns {StatementEntry[]} Returns the entries of the statement, the
+ *     oldest first.
+ *
+ * @example
+ *
+ * ```
+ * const tropykus = new Tropykus('https://public-node.rsk.co');
+ *
+ * (async function () {
+ *   const statement = await tropykus.getActivityStatement('0x123...', {
+ *     fromBlock: 5000000,
+ *     toBlock: 6000000,
+ *   });
+ *   statement.forEach((e) => console.log(e.date, e.event, e.valueUsd));
+ * })().catch(console.error);
+ * ```
+ */
+export async function getActivityStatement(
+	account: string,
+	options: StatementOptions = {}
+): Promise<StatementEntry[]> {
+	await netId(this);
+
+	const [history, claims] = await Promise.all([
+		getAccountHistory.bind(this)(account, options),
+		readRewardClaims.bind(this)(account, options),
+	]);
+
+	const entries = history.concat(claims);
+	entries.sort((a, b) =>
+		a.blockNumber === b.blockNumber
+			? a.logIndex - b.logIndex
+			: a.blockNumber - b.blockNumber
+	);
+
+	const positions = {};
+	const statement: StatementEntry[] = [];
+	for (let i = 0; i < entries.length; i++) {
+		const entry = entries[i];
+
+		// A failed read of the oracle, such as a node that is not an archive
+		//     node or an oracle deployed after the block, leaves the price of
+		//     the entry missing instead of failing the statement.
+		let priceUsd = null;
+		if (entry.cToken) {
+			const market = getMarket(this, entry.cToken, "");
+			try {
+				const price = await getUnderlyingPrice(this, market, {
+					...options,
+					blockTag: entry.blockNumber,
+				});
+				priceUsd =
+					Number(price) / Math.pow(10, 36 - decimals[market.underlying]);
+			} catch (error) {
+				if (!(error instanceof RpcError)) {
+					throw error;
+				}
+			}
+		}
+
+		const valueUsd = priceUsd === null ? null : entry.amount * priceUsd;
+
+		let costBasisUsd = null;
+		let realizedGainUsd = null;
+		if (entry.cTokens !== 0) {
+			const position = positions[entry.cToken] || { cTokens: 0, basis: 0 };
+
+			const isDisposal =
+				entry.event === "Redeem" ||
+				(entry.event === "Transfer" && entry.cTokens < 0);
+
+			if (!isDisposal) {
+				position.cTokens += entry.cTokens;
+				position.basis += valueUsd === null ? 0 : valueUsd;
+			} else {
+				const share =
+					position.cTokens > 0
+						? Math.min(Math.abs(entry.cTokens) / position.cTokens, 1)
+						: 1;
+				const basisOut = position.basis * share;
+
+				position.cTokens = Math.max(
+					position.cTokens - Math.abs(entry.cTokens),
+					0
+				);
+				position.basis -= basisOut;
+				realizedGainUsd =
+					valueUsd === null ? null : Math.abs(valueUsd) - basisOut;
+			}
+
+			positions[entry.cToken] = position;
+			costBasisUsd = position.basis;
+		}
+
+		statement.push({
+			date: new Date(entry.timestamp * 1000).toISOString(),
+			timestamp: entry.timestamp,
+			blockNumber: entry.blockNumber,
+			transactionHash: entry.transactionHash,
+			event: entry.event,
+			asset: entry.asset,
+			cToken: entry.cToken,
+			amount: entry.amount,
+			cTokens: entry.cTokens,
+			priceUsd,
+			valueUsd,
+			costBasisUsd,
+			realizedGainUsd,
+			counterparty: entry.counterparty,
+		});
+	}
+
+	return statement;
+}
+
+/**
+ * Exports the statement of the activity of an account as a CSV or JSON
+ *     document. See `getActivityStatement` for the entries and how the cost
+ *     basis is calculated.
+ *
+ * @param {string} account The address of the account.
+ * @param {StatementOptions} options The `format` of the document, `"csv"`
+ *     (default) or `"json"`, the `fromBlock` (required), `toBlock` and
+ *     `blockRange` of the statement, and call options for the `eth_getLogs`
+ *     and `eth_call`s.
+ *
+ * @returns {string} Returns the document.
+ *
+ * @example
+ *
+ * ```
+ * const tropykus = new Tropykus('https://public-node.rsk.co');
+ *
+ * (async function () {
+ *   const csv = await tropykus.exportActivity('0x123...', {
+ *     format: 'csv',
+ *     fromBlock: 5000000,
+ *     toBlock: 6000000,
+ *   });
+ *   fs.writeFileSync('statement.csv', csv);
+ * })().catch(console.error);
+ * ```
+ */
+export async function exportActivity(
+	account: string,
+	options: StatementOptions = {}
+): Promise<string> {
+	await netId(this);
+	const errorPrefix = "Compound [exportActivity] | ";
+
+	const { format = "csv" } = options;
+
+	if (format !== "csv" && format !== "json") {
+		throw new ValidationError(
+			errorPrefix + "Option `format` must be `csv` or `json`."
+		);
+	}
+
+	const statement = await getActivityStatement.bind(this)(account, options);
+
+	return format === "csv"
+		? toCsv(statement, csvColumns)
+		: JSON.stringify(statement, null, 2);
+}
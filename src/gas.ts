@@ -0,0 +1,115 @@
+/**
+ * @file Gas
+ * @desc These methods suggest gas prices for transactions. RSK nodes reject
+ *     transactions below the `minimumGasPrice` of the block, which the miners
+ *     can raise by up to 1% per block. They are exposed as `Tropykus.gas`.
+ */
+
+import { ethers } from "ethers";
+import { BigNumber } from "@ethersproject/bignumber/lib/bignumber";
+import { GasPrices, Provider } from "./types";
+
+// The minimum gas price of the next blocks can be up to 1% higher, in percent
+const minimumGasPriceMargin = 101;
+
+// The slow and fast suggestions, in tenths of the gas price
+const slowMultiplier = 9;
+const fastMultiplier = 12;
+
+/**
+ * Multiplies a gas price by a fraction, rounding up so a suggestion is never
+ *     below the price it is derived from.
+ *
+ * @hidden
+ *
+ * @returns {BigNumber} Returns the gas price times `numerator / denominator`.
+ */
+function mulCeil(
+	value: BigNumber,
+	numerator: number,
+	denominator: number
+): BigNumber {
+	return value
+		.mul(numerator)
+		.add(denominator - 1)
+		.div(denominator);
+}
+
+/**
+ * Resolves a provider, signer, URL or EIP-1193 provider into an Ethers.js
+ *     provider that can send raw JSON RPC requests.
+ *
+ * @hidden
+ *
+ * @param {Provider | string} provider The provider to resolve.
+ *
+ * @returns {object} Returns the Ethers.js provider.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function getJsonRpcProvider(provider: Provider | string): any {
+	if (typeof provider === "string") {
+		return new ethers.providers.JsonRpcProvider(provider);
+	}
+
+	// eslint-disable-next-line @typescript-eslint/no-explicit-any
+	let ethersProvider: any = provider._isSigner ? provider.provider : provider;
+
+	if (!ethersProvider._isProvider) {
+		ethersProvider = new ethers.providers.Web3Provider(ethersProvider);
+	} else if (!ethersProvider.send && ethersProvider.providerConfigs) {
+		ethersProvider = ethersProvider.providerConfigs[0].provider;
+	}
+
+	return ethersProvider;
+}
+
+/**
+ * Suggests gas prices for a transaction from the `minimumGasPrice` of the
+ *     latest block and the `eth_gasPrice` of the node. Every suggestion is at
+ *     least the minimum gas price plus 1%, so transactions are not rejected if
+ *     the minimum goes up. Networks without a minimum gas price, like
+ *     Ethereum, only use `eth_gasPrice`.
+ *
+ * @param {Provider | string} provider The Ethers.js provider or signer, the
+ *     URL of the node or an EIP-1193 provider, like `window.ethereum`.
+ *
+ * @returns {GasPrices} Returns the `slow`, `standard` and `fast` gas prices,
+ *     with the `minimumGasPrice` and `gasPrice` of the node, as BigNumbers in
+ *     wei.
+ *
+ * @example
+ *
+ * ```
+ * (async function () {
+ *   const gasPrices = await Tropykus.gas.getGasPrices('https://public-node.rsk.co');
+ *   console.log('Standard gas price', gasPrices.standard.toString());
+ * })().catch(console.error);
+ * ```
+ */
+export async function getGasPrices(
+	provider: Provider | string
+): Promise<GasPrices> {
+	const jsonRpcProvider = getJsonRpcProvider(provider);
+
+	const [block, nodeGasPrice] = await Promise.all([
+		jsonRpcProvider.send("eth_getBlockByNumber", ["latest", false]),
+		jsonRpcProvider.send("eth_gasPrice", []),
+	]);
+
+	const minimumGasPrice = ethers.BigNumber.from(
+		(block && block.minimumGasPrice) || 0
+	);
+	const gasPrice = ethers.BigNumber.from(nodeGasPrice);
+
+	const floor = mulCeil(minimumGasPrice, minimumGasPriceMargin, 100);
+	const standard = floor.gt(gasPrice) ? floor : gasPrice;
+	const slow = mulCeil(gasPrice, slowMultiplier, 10);
+
+	return {
+		slow: floor.gt(slow) ? floor : slow,
+		standard,
+		fast: mulCeil(standard, fastMultiplier, 10),
+		minimumGasPrice,
+		gasPrice,
+	};
+}
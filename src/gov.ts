@@ -15,6 +15,7 @@ import {
   VoteTypes,
   EIP712Domain
 } from './types';
+import { ValidationError } from './errors';
 
 /**
  * Submit a vote on a Compound Governance proposal.
@@ -51,11 +52,11 @@ export async function castVote(
   const errorPrefix = 'Compound [castVote] | ';
 
   if (typeof proposalId !== 'number') {
-    throw Error(errorPrefix + 'Argument `proposalId` must be an integer.');
+    throw new ValidationError(errorPrefix + 'Argument `proposalId` must be an integer.');
   }
 
   if (typeof support !== 'number') {
-    throw Error(errorPrefix + 'Argument `support` must be an integer (0, 1, or 2).');
+    throw new ValidationError(errorPrefix + 'Argument `support` must be an integer (0, 1, or 2).');
   }
 
   const governorAddress = address[this._network.name].GovernorBravo;
@@ -113,11 +114,11 @@ export async function castVoteBySig(
   const errorPrefix = 'Compound [castVoteBySig] | ';
 
   if (typeof proposalId !== 'number') {
-    throw Error(errorPrefix + 'Argument `proposalId` must be an integer.');
+    throw new ValidationError(errorPrefix + 'Argument `proposalId` must be an integer.');
   }
 
   if (typeof support !== 'number') {
-    throw Error(errorPrefix + 'Argument `support` must be an integer (0, 1, or 2).');
+    throw new ValidationError(errorPrefix + 'Argument `support` must be an integer (0, 1, or 2).');
   }
 
   if (
@@ -126,7 +127,7 @@ export async function castVoteBySig(
     !signature.r ||
     !signature.s
   ) {
-    throw Error(errorPrefix + 'Argument `signature` must be an object that ' + 
+    throw new ValidationError(errorPrefix + 'Argument `signature` must be an object that ' + 
       'contains the v, r, and s pieces of an EIP-712 signature.');
   }
 
@@ -248,15 +249,15 @@ export async function castVoteWithReason(
   const errorPrefix = 'Compound [castVoteWithReason] | ';
 
   if (typeof proposalId !== 'number') {
-    throw Error(errorPrefix + 'Argument `proposalId` must be an integer.');
+    throw new ValidationError(errorPrefix + 'Argument `proposalId` must be an integer.');
   }
 
   if (typeof support !== 'number') {
-    throw Error(errorPrefix + 'Argument `support` must be an integer (0, 1, or 2).');
+    throw new ValidationError(errorPrefix + 'Argument `support` must be an integer (0, 1, or 2).');
   }
 
   if (typeof reason !== 'string') {
-    throw Error(errorPrefix + 'Argument `reason` must be a string.');
+    throw new ValidationError(errorPrefix + 'Argument `reason` must be a string.');
   }
 
   const governorAddress = address[this._network.name].GovernorBravo;
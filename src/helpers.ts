@@ -1,5 +1,16 @@
 import { ethers } from "ethers";
-import { CompoundInstance } from "./types";
+import * as eth from "./eth";
+import { address, abi, cTokens, underlyings, constants } from "./constants";
+import { BigNumber } from "@ethersproject/bignumber/lib/bignumber";
+import {
+	ApprovalStrategy,
+	CallOptions,
+	CompoundInstance,
+	MarketInfo,
+	TransactionStepHandler,
+} from "./types";
+import { getNetNameWithChainId } from "./util";
+import { decodeFailure, ProtocolError, ValidationError } from "./errors";
 
 /**
  * This function acts like a decorator for all methods that interact with the
@@ -51,3 +62,298 @@ export function toChecksumAddress(_address: string): string {
 
 	return ret;
 }
+
+/**
+ * Resolves an asset into the details of its market on the network the
+ *     instance is connected to. The asset can be the underlying symbol or the
+ *     cToken (or kToken) name of the market.
+ *
+ * @hidden
+ *
+ * @param {Compound} instance The instance of the SDK, after `netId` resolved.
+ * @param {string} asset The underlying symbol or the cToken name of a market.
+ * @param {string} errorPrefix The prefix of the error thrown for an
+ *     unsupported asset.
+ *
+ * @returns {MarketInfo} Returns the names, addresses and ABI of the market.
+ */
+export function getMarket(
+	instance: CompoundInstance,
+	asset: string,
+	errorPrefix: string
+): MarketInfo {
+	if (typeof asset !== "string" || asset.length < 1) {
+		throw new ValidationError(
+			errorPrefix + "Argument `asset` must be a non-empty string."
+		);
+	}
+
+	const isCToken = cTokens.includes(asset) && !underlyings.includes(asset);
+	const underlying = isCToken ? asset.slice(1, asset.length) : asset;
+	const cTokenName = "c" + underlying;
+
+	const netAddresses =
+		address[getNetNameWithChainId(instance._network.id)] || {};
+	const cTokenAddress = netAddresses[cTokenName];
+
+	if (!cTokenAddress || !underlyings.includes(underlying)) {
+		throw new ValidationError(
+			errorPrefix + "Argument `asset` is not supported."
+		);
+	}
+
+	const isNative =
+		cTokenName === constants.cETH || cTokenName === constants.cRBTC;
+
+	return {
+		underlying,
+		cTokenName,
+		cTokenAddress,
+		underlyingAddress: isNative ? undefined : netAddresses[underlying],
+		isNative,
+		abi: isNative ? abi.cEther : abi.cErc20,
+	};
+}
+
+/**
+ * Lists the markets the SDK knows for the network the instance is connected
+ *     to.
+ *
+ * @hidden
+ *
+ * @param {Compound} instance The instance of the SDK, after `netId` resolved.
+ *
+ * @returns {MarketInfo[]} Returns the details of every known market.
+ */
+export function getMarkets(instance: CompoundInstance): MarketInfo[] {
+	const netAddresses =
+		address[getNetNameWithChainId(instance._network.id)] || {};
+
+	return underlyings
+		.filter((underlying) => !!netAddresses["c" + underlying])
+		.map((underlying) => getMarket(instance, underlying, ""));
+}
+
+/**
+ * Reads the price of the underlying asset of a market from the price oracle
+ *     of the Comptroller. This is the price the Comptroller uses for the
+ *     liquidity of the accounts.
+ *
+ * @hidden
+ *
+ * @param {Compound} instance The instance of the SDK, after `netId` resolved.
+ * @param {MarketInfo} market The market to read the price of.
+ * @param {CallOptions} options Call options for every `eth_call`.
+ *
+ * @returns {BigNumber} Returns the USD price of one unit of the underlying
+ *     asset, scaled up by `1e(36 - underlying decimals)`.
+ */
+export async function getUnderlyingPrice(
+	instance: CompoundInstance,
+	market: MarketInfo,
+	options: CallOptions
+): Promise<BigNumber> {
+	const comptrollerAddress =
+		address[getNetNameWithChainId(instance._network.id)].Comptroller;
+
+	const oracleAddress = await eth.read(comptrollerAddress, "oracle", [], {
+		...options,
+		_compoundProvider: instance._provider,
+		abi: abi.Comptroller,
+	});
+
+	return eth.read(oracleAddress, "getUnderlyingPrice", [market.cTokenAddress], {
+		...options,
+		_compoundProvider: instance._provider,
+		abi: abi.PriceOracle,
+	});
+}
+
+/**
+ * Reads what the Comptroller would do in a liquidation, as mantissas. The
+ *     close factor applies to the borrow balance with the interest accrued up
+ *     to the current block, as the liquidation accrues it first.
+ *
+ * @hidden
+ *
+ * @param {Compound} instance The instance of the SDK, after `netId` resolved.
+ * @param {string} borrower The address of the account to liquidate.
+ * @param {MarketInfo} repayMarket The market of the borrow to repay.
+ * @param {MarketInfo} collateralMarket The market of the collateral to seize.
+ * @param {BigNumber} amount The amount of the borrow to repay.
+ * @param {CallOptions} options Call options for every `eth_call`.
+ * @param {string} errorPrefix The prefix of the errors thrown.
+ *
+ * @returns {object} Returns the shortfall of the borrower, the close factor,
+ *     the liquidation incentive, the largest repayment the close factor
+ *     allows, the cTokens seized and the exchange rate of the collateral.
+ */
+export async function readLiquidation(
+	instance: CompoundInstance,
+	borrower: string,
+	repayMarket: MarketInfo,
+	collateralMarket: MarketInfo,
+	amount: BigNumber,
+	options: CallOptions,
+	errorPrefix: string
+): Promise<{
+	shortfall: BigNumber;
+	closeFactor: BigNumber;
+	liquidationIncentive: BigNumber;
+	maxRepayAmount: BigNumber;
+	seizeTokens: BigNumber;
+	exchangeRate: BigNumber;
+}> {
+	const comptrollerAddress =
+		address[getNetNameWithChainId(instance._network.id)].Comptroller;
+
+	const compOptions: CallOptions = {
+		...options,
+		_compoundProvider: instance._provider,
+		abi: abi.Comptroller,
+	};
+
+	const [
+		accountLiquidity,
+		closeFactor,
+		liquidationIncentive,
+		seizeResult,
+		borrowBalance,
+		exchangeRate,
+	] = await Promise.all([
+		eth.read(
+			comptrollerAddress,
+			"getAccountLiquidity",
+			[borrower],
+			compOptions
+		),
+		eth.read(comptrollerAddress, "closeFactorMantissa", [], compOptions),
+		eth.read(
+			comptrollerAddress,
+			"liquidationIncentiveMantissa",
+			[],
+			compOptions
+		),
+		eth.read(
+			comptrollerAddress,
+			"liquidateCalculateSeizeTokens",
+			[repayMarket.cTokenAddress, collateralMarket.cTokenAddress, amount],
+			compOptions
+		),
+		eth.read(repayMarket.cTokenAddress, "borrowBalanceCurrent", [borrower], {
+			...compOptions,
+			abi: repayMarket.abi,
+		}),
+		eth.read(collateralMarket.cTokenAddress, "exchangeRateStored", [], {
+			...compOptions,
+			abi: collateralMarket.abi,
+		}),
+	]);
+
+	[accountLiquidity[0], seizeResult[0]].forEach((error: BigNumber) => {
+		if (!error.isZero()) {
+			const failure = decodeFailure("comptroller", Number(error));
+			throw new ProtocolError(
+				errorPrefix + "Comptroller returned an error. " + failure.description,
+				failure.errorName
+			);
+		}
+	});
+
+	return {
+		shortfall: accountLiquidity[2],
+		closeFactor,
+		liquidationIncentive,
+		maxRepayAmount: borrowBalance
+			.mul(closeFactor)
+			.div(ethers.constants.WeiPerEther),
+		seizeTokens: seizeResult[1],
+		exchangeRate,
+	};
+}
+
+/**
+ * Approves a cToken market to pull the underlying asset of the user before a
+ *     supply or repayment, if its allowance does not cover the amount. The
+ *     `exact` strategy approves the amount, `unlimited` approves the maximum
+ *     so later actions need no approval, and `none` never approves.
+ *
+ * @hidden
+ *
+ * @param {Compound} instance The instance of the SDK, after `netId` resolved.
+ * @param {MarketInfo} market The market to approve, with an ERC-20
+ *     underlying asset.
+ * @param {string} owner The address of the user.
+ * @param {BigNumber} amount The amount the market will pull, scaled up.
+ * @param {ApprovalStrategy} strategy How much to approve, if anything.
+ * @param {CallOptions} options Call options and Ethers.js overrides for the
+ *     `eth_call` and the approve transaction.
+ * @param {string} errorPrefix The prefix of the error thrown for an invalid
+ *     strategy.
+ * @param {TransactionStepHandler} [onStep] Called before the approve
+ *     transaction is sent, once it is sent and once it is mined.
+ */
+export async function ensureAllowance(
+	instance: CompoundInstance,
+	market: MarketInfo,
+	owner: string,
+	amount: BigNumber,
+	strategy: ApprovalStrategy,
+	options: CallOptions,
+	errorPrefix: string,
+	onStep?: TransactionStepHandler
+): Promise<void> {
+	if (!["exact", "unlimited", "none"].includes(strategy)) {
+		throw new ValidationError(
+			errorPrefix +
+				"Option `approvalStrategy` must be `exact`, `unlimited` or `none`."
+		);
+	}
+
+	if (strategy === "none") {
+		return;
+	}
+
+	const erc20Options: CallOptions = {
+		...options,
+		_compoundProvider: instance._provider,
+		abi: abi.Erc20,
+	};
+
+	const allowance = await eth.read(
+		market.underlyingAddress,
+		"allowance",
+		[owner, market.cTokenAddress],
+		erc20Options
+	);
+
+	if (allowance.gte(amount)) {
+		return;
+	}
+
+	if (onStep) {
+		onStep("approvalRequested");
+	}
+
+	// ERC-20 approve transaction
+	const approveTx = await eth.trx(
+		market.underlyingAddress,
+		"approve",
+		[
+			market.cTokenAddress,
+			strategy === "unlimited" ? ethers.constants.MaxUint256 : amount,
+		],
+		erc20Options
+	);
+
+	if (onStep) {
+		onStep("approvalSent", approveTx);
+	}
+
+	// The main transaction would fail if sent before the approval is mined.
+	await approveTx.wait();
+
+	if (onStep) {
+		onStep("approvalMined", approveTx);
+	}
+}
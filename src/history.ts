@@ -0,0 +1,458 @@
+/**
+ * @file History
+ * @desc These methods read the activity of an account in the cToken markets
+ *     from the events of their contracts, and the interest it earned and paid,
+ *     without relying on the Tropykus API.
+ */
+
+import { ethers } from "ethers";
+import * as eth from "./eth";
+import { netId, getMarket, getMarkets } from "./helpers";
+import { decimals } from "./constants";
+import {
+	AccountHistoryEntry,
+	CallOptions,
+	EventOptions,
+	InterestSummary,
+	MarketInfo,
+} from "./types";
+import { ValidationError } from "./errors";
+
+/**
+ * Reads the events of a market that involve an account. Transfers from and
+ *     to the cToken itself are left out, they are part of mints and redeems.
+ *
+ * @hidden
+ *
+ * @param {string} account The address of the account.
+ * @param {MarketInfo} market The market to read the events of.
+ * @param {EventOptions} options The block range of the events and call
+ *     options for the `eth_getLogs`.
+ *
+ * @returns {object} Returns the events of the account by name.
+ */
+async function readMarketEvents(
+	account: string,
+	market: MarketInfo,
+	options: EventOptions
+) {
+	const eventOptions: EventOptions = {
+		...options,
+		_compoundProvider: this._provider,
+		abi: market.abi,
+	};
+
+	const isAccount = (a: string) => a.toLowerCase() === account.toLowerCase();
+	const isCToken = (a: string) =>
+		a.toLowerCase() === market.cTokenAddress.toLowerCase();
+
+	const [mints, redeems, borrows, repays, liquidations, sent, received] =
+		await Promise.all([
+			eth.getEvents(market.cTokenAddress, "Mint", eventOptions),
+			eth.getEvents(market.cTokenAddress, "Redeem", eventOptions),
+			eth.getEvents(market.cTokenAddress, "Borrow", eventOptions),
+			eth.getEvents(market.cTokenAddress, "RepayBorrow", eventOptions),
+			eth.getEvents(market.cTokenAddress, "LiquidateBorrow", eventOptions),
+			eth.getEvents(market.cTokenAddress, "Transfer", {
+				...eventOptions,
+				args: [account],
+			}),
+			eth.getEvents(market.cTokenAddress, "Transfer", {
+				...eventOptions,
+				args: [null, account],
+			}),
+		]);
+
+	return {
+		mints: mints.filter((e) => isAccount(e.args.minter)),
+		redeems: redeems.filter((e) => isAccount(e.args.redeemer)),
+		borrows: borrows.filter((e) => isAccount(e.args.borrower)),
+		repays: repays.filter(
+			(e) => isAccount(e.args.payer) || isAccount(e.args.borrower)
+		),
+		liquidations: liquidations.filter(
+			(e) => isAccount(e.args.liquidator) || isAccount(e.args.borrower)
+		),
+		transfers: sent
+			.concat(received)
+			.filter((e) => !isCToken(e.args.from) && !isCToken(e.args.to))
+			.filter((e) => !(isAccount(e.args.from) && isAccount(e.args.to))),
+	};
+}
+
+/**
+ * Calculates the underlying amount of a cToken transfer with the exchange
+ *     rate at its block, since transfers only carry the cTokens.
+ *
+ * @hidden
+ *
+ * @param {MarketInfo} market The market of the transfer.
+ * @param {ethers.Event} transfer The `Transfer` event.
+ * @param {CallOptions} options Call options for the `eth_call`.
+ *
+ * @returns {number} Returns the amount of the underlying asset.
+ */
+async function readTransferAmount(
+	market: MarketInfo,
+	transfer: ethers.Event,
+	options: CallOptions
+): Promise<number> {
+	const exchangeRate = await eth.read(
+		market.cTokenAddress,
+		"exchangeRateStored",
+		[],
+		{
+			...options,
+			_compoundProvider: this._provider,
+			abi: market.abi,
+			blockTag: transfer.blockNumber,
+		}
+	);
+
+	const exchangeRateDecimals =
+		18 + decimals[market.underlying] - decimals[market.cTokenName];
+
+	return (
+		((Number(transfer.args.amount) /
+			Math.pow(10, decimals[market.cTokenName])) *
+			Number(exchangeRate)) /
+		Math.pow(10, exchangeRateDecimals)
+	);
+}
+
+/**
+ * Reads the events of a market that involve an account and turns them into
+ *     history entries, without their timestamps.
+ *
+ * @hidden
+ *
+ * @param {string} account The address of the account.
+ * @param {MarketInfo} market The market to read the events of.
+ * @param {EventOptions} options The block range of the events and call
+ *     options for the `eth_getLogs` and `eth_call`s.
+ *
+ * @returns {AccountHistoryEntry[]} Returns the entries of the market.
+ */
+async function readMarketHistory(
+	account: string,
+	market: MarketInfo,
+	options: EventOptions
+): Promise<AccountHistoryEntry[]> {
+	const events = await readMarketEvents.bind(this)(account, market, options);
+
+	const isAccount = (a: string) => a.toLowerCase() === account.toLowerCase();
+	const underlyingUnit = Math.pow(10, decimals[market.underlying]);
+	const cTokenUnit = Math.pow(10, decimals[market.cTokenName]);
+
+	const entry = (
+		e: ethers.Event,
+		amount: number,
+		cTokens: number,
+		counterparty: string | null
+	): AccountHistoryEntry => ({
+		event: e.event,
+		asset: market.underlying,
+		cToken: market.cTokenName,
+		amount,
+		cTokens,
+		counterparty,
+		blockNumber: e.blockNumber,
+		timestamp: 0,
+		transactionHash: e.transactionHash,
+		logIndex: e.logIndex,
+	});
+
+	const entries: AccountHistoryEntry[] = [];
+
+	events.mints.forEach((e) =>
+		entries.push(
+			entry(
+				e,
+				Number(e.args.mintAmount) / underlyingUnit,
+				Number(e.args.mintTokens) / cTokenUnit,
+				null
+			)
+		)
+	);
+
+	events.redeems.forEach((e) =>
+		entries.push(
+			entry(
+				e,
+				Number(e.args.redeemAmount) / underlyingUnit,
+				Number(e.args.redeemTokens) / cTokenUnit,
+				null
+			)
+		)
+	);
+
+	events.borrows.forEach((e) =>
+		entries.push(
+			entry(e, Number(e.args.borrowAmount) / underlyingUnit, 0, null)
+		)
+	);
+
+	events.repays.forEach((e) => {
+		let counterparty = null;
+		if (!isAccount(e.args.payer)) {
+			counterparty = e.args.payer;
+		} else if (!isAccount(e.args.borrower)) {
+			counterparty = e.args.borrower;
+		}
+
+		entries.push(
+			entry(e, Number(e.args.repayAmount) / underlyingUnit, 0, counterparty)
+		);
+	});
+
+	events.liquidations.forEach((e) =>
+		entries.push(
+			entry(
+				e,
+				Number(e.args.repayAmount) / underlyingUnit,
+				0,
+				isAccount(e.args.borrower) ? e.args.liquidator : e.args.borrower
+			)
+		)
+	);
+
+	for (let i = 0; i < events.transfers.length; i++) {
+		const e = events.transfers[i];
+		const amount = await readTransferAmount.bind(this)(market, e, options);
+
+		const sign = isAccount(e.args.from) ? -1 : 1;
+
+		entries.push(
+			entry(
+				e,
+				sign * amount,
+				(sign * Number(e.args.amount)) / cTokenUnit,
+				sign < 0 ? e.args.to : e.args.from
+			)
+		);
+	}
+
+	return entries;
+}
+
+/**
+ * Reads the activity of an account in every market the SDK knows for the
+ *     network of the provider, from the `Mint`, `Redeem`, `Borrow`,
+ *     `RepayBorrow`, `LiquidateBorrow` and `Transfer` events of the cTokens.
+ *
+ * Amounts are in the underlying asset and `cTokens` is the amount of cTokens
+ *     minted, redeemed or transferred. Transfers sent by the account have
+ *     negative amounts, and include the collateral seized in liquidations.
+ *     The `counterparty` is the other account of a repayment on behalf,
+ *     liquidation or transfer.
+ *
+ * @param {string} account The address of the account.
+ * @param {EventOptions} options The `fromBlock` (required), `toBlock`
+ *     (defaults to the latest block) and `blockRange` of the events, and
+ *     call options for the `eth_getLogs` and `eth_call`s.
+ *
+ * @returns {AccountHistoryEntry[]} Returns the entries of the account, the
+ *     oldest first.
+ *
+ * @example
+ *
+ * ```
+ * const tropykus = new Tropykus('https://public-node.rsk.co');
+ *
+ * (async function () {
+ *   const history = await tropykus.getAccountHistory('0x123...', {
+ *     fromBlock: 3000000,
+ *   });
+ *   history.forEach((e) => console.log(e.timestamp, e.event, e.amount, e.asset));
+ * })().catch(console.error);
+ * ```
+ */
+export async function getAccountHistory(
+	account: string,
+	options: EventOptions = {}
+): Promise<AccountHistoryEntry[]> {
+	await netId(this);
+	const errorPrefix = "Compound [getAccountHistory] | ";
+
+	if (!ethers.utils.isAddress(account)) {
+		throw new ValidationError(
+			errorPrefix + "Argument `account` must be a valid Ethereum address."
+		);
+	}
+
+	if (options.fromBlock === undefined || options.fromBlock === null) {
+		throw new ValidationError(errorPrefix + "Option `fromBlock` is required.");
+	}
+
+	const marketEntries = await Promise.all(
+		getMarkets(this).map((market) =>
+			readMarketHistory.bind(this)(account, market, options)
+		)
+	);
+
+	const entries: AccountHistoryEntry[] = [].concat(...marketEntries);
+	entries.sort((a, b) =>
+		a.blockNumber === b.blockNumber
+			? a.logIndex - b.logIndex
+			: a.blockNumber - b.blockNumber
+	);
+
+	const provider = this._provider._isSigner
+		? this._provider.provider
+		: this._provider;
+
+	const timestamps = {};
+	for (let i = 0; i < entries.length; i++) {
+		const blockNumber = entries[i].blockNumber;
+		if (timestamps[blockNumber] === undefined) {
+			timestamps[blockNumber] = (
+				await provider.getBlock(blockNumber)
+			).timestamp;
+		}
+
+		entries[i].timestamp = timestamps[blockNumber];
+	}
+
+	return entries;
+}
+
+/**
+ * Calculates the interest an account earned on its deposits and paid on its
+ *     borrows in a market, from its events and its current balances. Like
+ *     `depositsInterest` and `borrowInterest` of `api.getUserBalance`, the
+ *     interest is the balance minus the net amount that went in: supplies
+ *     minus redeems and transfers for deposits, borrows minus repayments for
+ *     borrows. The events must cover all the activity of the account, so
+ *     `fromBlock` has to be at or before its first supply or borrow in the
+ *     market.
+ *
+ * @param {string} account The address of the account.
+ * @param {string} asset A string of the underlying asset or the cToken name
+ *     of the market.
+ * @param {EventOptions} options The `fromBlock` (required), `toBlock`
+ *     (defaults to the latest block) and `blockRange` of the events, and
+ *     call options for the `eth_getLogs` and `eth_call`s. The balances are
+ *     read at `toBlock`.
+ *
+ * @returns {InterestSummary} Returns the balances, net amounts and interest
+ *     of the account in the underlying asset.
+ *
+ * @example
+ *
+ * ```
+ * const tropykus = new Tropykus('https://public-node.rsk.co');
+ *
+ * (async function () {
+ *   const summary = await tropykus.getInterestSummary('0x123...', Tropykus.DOC, {
+ *     fromBlock: 3000000,
+ *   });
+ *   console.log('DOC interest earned', summary.depositsInterest);
+ * })().catch(console.error);
+ * ```
+ */
+export async function getInterestSummary(
+	account: string,
+	asset: string,
+	options: EventOptions = {}
+): Promise<InterestSummary> {
+	await netId(this);
+	const errorPrefix = "Compound [getInterestSummary] | ";
+
+	if (!ethers.utils.isAddress(account)) {
+		throw new ValidationError(
+			errorPrefix + "Argument `account` must be a valid Ethereum address."
+		);
+	}
+
+	const market = getMarket(this, asset, errorPrefix);
+
+	if (options.fromBlock === undefined || options.fromBlock === null) {
+		throw new ValidationError(errorPrefix + "Option `fromBlock` is required.");
+	}
+
+	// The balances are read at the last block of the events, so a block mined
+	//     in between does not count as interest.
+	const {
+		fromBlock,
+		toBlock: toBlockTag,
+		blockRange,
+		...callOptions
+	} = options;
+	const toBlock = await eth.getBlockNumber(
+		toBlockTag === undefined ? "latest" : toBlockTag,
+		this._provider
+	);
+	callOptions.blockTag = toBlock;
+
+	const trxOptions: CallOptions = {
+		...callOptions,
+		_compoundProvider: this._provider,
+		abi: market.abi,
+	};
+
+	const [events, balanceOfUnderlying, borrowBalanceCurrent] = await Promise.all(
+		[
+			readMarketEvents.bind(this)(account, market, {
+				...callOptions,
+				fromBlock,
+				toBlock,
+				blockRange,
+			}),
+			eth.read(
+				market.cTokenAddress,
+				"balanceOfUnderlying",
+				[account],
+				trxOptions
+			),
+			eth.read(
+				market.cTokenAddress,
+				"borrowBalanceCurrent",
+				[account],
+				trxOptions
+			),
+		]
+	);
+
+	const isAccount = (a: string) => a.toLowerCase() === account.toLowerCase();
+	const underlyingUnit = Math.pow(10, decimals[market.underlying]);
+	const sum = (amounts: number[]) => amounts.reduce((a, b) => a + b, 0);
+
+	const transferAmounts = [];
+	for (let i = 0; i < events.transfers.length; i++) {
+		const e = events.transfers[i];
+		const amount = await readTransferAmount.bind(this)(market, e, callOptions);
+		transferAmounts.push(isAccount(e.args.from) ? -amount : amount);
+	}
+
+	// Liquidations repay with a `RepayBorrow` event too, so they are counted
+	//     in the repayments of the borrower.
+	const netDeposits =
+		sum(events.mints.map((e) => Number(e.args.mintAmount) / underlyingUnit)) -
+		sum(
+			events.redeems.map((e) => Number(e.args.redeemAmount) / underlyingUnit)
+		) +
+		sum(transferAmounts);
+	const netBorrows =
+		sum(
+			events.borrows.map((e) => Number(e.args.borrowAmount) / underlyingUnit)
+		) -
+		sum(
+			events.repays
+				.filter((e) => isAccount(e.args.borrower))
+				.map((e) => Number(e.args.repayAmount) / underlyingUnit)
+		);
+
+	const deposits = Number(balanceOfUnderlying) / underlyingUnit;
+	const borrows = Number(borrowBalanceCurrent) / underlyingUnit;
+
+	return {
+		asset: market.underlying,
+		cToken: market.cTokenName,
+		deposits,
+		netDeposits,
+		depositsInterest: deposits - netDeposits,
+		borrows,
+		netBorrows,
+		borrowInterest: borrows - netBorrows,
+	};
+}
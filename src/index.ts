@@ -7,9 +7,21 @@
 import { ethers } from "ethers";
 import * as eth from "./eth";
 import * as util from "./util";
+import * as errors from "./errors";
+import * as gas from "./gas";
+import * as rates from "./rates";
 import * as comptroller from "./comptroller";
 import * as cToken from "./cToken";
+import * as allowance from "./allowance";
 import * as priceFeed from "./priceFeed";
+import * as market from "./market";
+import * as account from "./account";
+import * as history from "./history";
+import * as exporter from "./exporter";
+import * as events from "./events";
+import * as monitor from "./monitor";
+import * as interestRateModel from "./interestRateModel";
+import * as scanner from "./scanner";
 import * as api from "./api";
 import { constants, decimals } from "./constants";
 import { Provider, CompoundOptions, CompoundInstance } from "./types";
@@ -69,13 +81,26 @@ const Tropykus = function (
 	options.provider = provider || options.provider;
 	provider = eth._createProvider(options);
 
+	if (options.batch) {
+		eth.setBatching(provider);
+	}
+
 	// eslint-disable-next-line @typescript-eslint/no-explicit-any
 	const instance: any = {
 		_originalProvider: originalProvider,
 		_provider: provider,
 		...comptroller,
 		...cToken,
+		...allowance,
 		...priceFeed,
+		...market,
+		...account,
+		...history,
+		...exporter,
+		...events,
+		...monitor,
+		...interestRateModel,
+		...scanner,
 		...api,
 	};
 
@@ -93,6 +118,9 @@ const Tropykus = function (
 
 Tropykus.eth = eth;
 Tropykus.util = util;
+Tropykus.rates = rates;
+Tropykus.errors = errors;
+Tropykus.gas = gas;
 Tropykus._ethers = ethers;
 Tropykus.decimals = decimals;
 Object.assign(Tropykus, constants);
@@ -0,0 +1,550 @@
+/**
+ * @file Interest Rate Model
+ * @desc These methods read the interest rate models of the cToken markets and
+ *     describe how their rates change with utilization.
+ */
+
+import { ethers } from "ethers";
+import * as eth from "./eth";
+import { netId, getMarket } from "./helpers";
+import { abi, decimals } from "./constants";
+import { borrowRateAt, supplyRateAt, toApy, utilizationRate } from "./rates";
+import { BigNumber } from "@ethersproject/bignumber/lib/bignumber";
+import {
+	CallOptions,
+	InterestRateModel,
+	InterestRateModelParameters,
+	RateCurve,
+	RateCurveOptions,
+	RateCurvePoint,
+	RateSimulation,
+	RateSimulationOptions,
+} from "./types";
+import { ProtocolError, RevertedError, ValidationError } from "./errors";
+
+// Rates queried at once from models that are not jump rate models
+const maxConcurrentQueries = 10;
+
+/**
+ * Reads the parameters of a jump rate model.
+ *
+ * @hidden
+ *
+ * @param {string} modelAddress The address of the interest rate model.
+ * @param {CallOptions} options Call options for every `eth_call`.
+ *
+ * @returns {InterestRateModelParameters | null} Returns the parameters of the
+ *     model, or null if it is not a jump rate model.
+ */
+async function readModelParameters(
+	modelAddress: string,
+	options: CallOptions
+): Promise<InterestRateModelParameters | null> {
+	const trxOptions: CallOptions = {
+		...options,
+		_compoundProvider: this._provider,
+		abi: abi.InterestRateModel,
+	};
+
+	// Models without a kink (like the white paper model) revert on the jump
+	//     parameters, their rate grows linearly with utilization. Other errors
+	//     are not a missing parameter and are rethrown.
+	const [baseRatePerBlock, multiplierPerBlock, jumpMultiplierPerBlock, kink] =
+		await Promise.all(
+			[
+				"baseRatePerBlock",
+				"multiplierPerBlock",
+				"jumpMultiplierPerBlock",
+				"kink",
+			].map((method) =>
+				eth.read(modelAddress, method, [], trxOptions).catch((error) => {
+					if (error instanceof RevertedError) {
+						return null;
+					}
+					throw error;
+				})
+			)
+		);
+
+	if (baseRatePerBlock === null || multiplierPerBlock === null) {
+		return null;
+	}
+
+	const hasKink = jumpMultiplierPerBlock !== null && kink !== null;
+
+	return {
+		baseRatePerBlock: Number(baseRatePerBlock) / 1e18,
+		multiplierPerBlock: Number(multiplierPerBlock) / 1e18,
+		jumpMultiplierPerBlock: hasKink ? Number(jumpMultiplierPerBlock) / 1e18 : 0,
+		kink: hasKink ? Number(kink) / 1e18 : 1,
+	};
+}
+
+/**
+ * Reads the parameters of the interest rate model a cToken points to.
+ *
+ * @hidden
+ *
+ * @param {string} cTokenAddress The address of the cToken.
+ * @param {CallOptions} options Call options for every `eth_call`.
+ * @param {string} errorPrefix The prefix of the error thrown for a model
+ *     without the expected parameters.
+ *
+ * @returns {InterestRateModel} Returns the address and parameters of the
+ *     model.
+ */
+async function readInterestRateModel(
+	cTokenAddress: string,
+	options: CallOptions,
+	errorPrefix: string
+): Promise<InterestRateModel> {
+	const modelAddress = await eth.read(cTokenAddress, "interestRateModel", [], {
+		...options,
+		_compoundProvider: this._provider,
+		abi: abi.cErc20,
+	});
+
+	const parameters = await readModelParameters.bind(this)(
+		modelAddress,
+		options
+	);
+
+	if (parameters === null) {
+		throw new ProtocolError(
+			errorPrefix +
+				"Interest rate model `" +
+				modelAddress +
+				"` is not supported.",
+			"UNSUPPORTED_INTEREST_RATE_MODEL"
+		);
+	}
+
+	return { address: modelAddress, ...parameters };
+}
+
+/**
+ * Calculates the rates a jump rate model sets at a utilization.
+ *
+ * @hidden
+ *
+ * @param {InterestRateModelParameters} model The parameters of the model.
+ * @param {number} utilization The utilization as a fraction.
+ * @param {number} reserveFactor The reserve factor of the market.
+ * @param {number} [blocksPerYear] The blocks per year for the APYs.
+ *
+ * @returns {RateCurvePoint} Returns the rates per block and their APYs.
+ */
+function ratesAt(
+	model: InterestRateModelParameters,
+	utilization: number,
+	reserveFactor: number,
+	blocksPerYear?: number
+): RateCurvePoint {
+	const borrowRatePerBlock = borrowRateAt(model, utilization);
+	const supplyRatePerBlock = supplyRateAt(model, utilization, reserveFactor);
+
+	return {
+		utilization,
+		borrowRatePerBlock,
+		supplyRatePerBlock,
+		borrowApy: toApy(borrowRatePerBlock, { blocksPerYear }),
+		supplyApy: toApy(supplyRatePerBlock, { blocksPerYear }),
+	};
+}
+
+/**
+ * Reads the interest rate model of a cToken and the cash, borrows, reserves
+ *     and reserve factor its rates are calculated from, as mantissas.
+ *
+ * @hidden
+ *
+ * @param {string} cTokenAddress The address of the cToken.
+ * @param {CallOptions} options Call options for every `eth_call`.
+ *
+ * @returns {object} Returns the address of the model and the state of the
+ *     market.
+ */
+async function readMarketState(
+	cTokenAddress: string,
+	options: CallOptions
+): Promise<{
+	modelAddress: string;
+	cash: BigNumber;
+	borrows: BigNumber;
+	reserves: BigNumber;
+	reserveFactorMantissa: BigNumber;
+}> {
+	const trxOptions: CallOptions = {
+		...options,
+		_compoundProvider: this._provider,
+		abi: abi.cErc20,
+	};
+
+	const [modelAddress, cash, borrows, reserves, reserveFactorMantissa] =
+		await Promise.all(
+			[
+				"interestRateModel",
+				"getCash",
+				"totalBorrows",
+				"totalReserves",
+				"reserveFactorMantissa",
+			].map((method) => eth.read(cTokenAddress, method, [], trxOptions))
+		);
+
+	return { modelAddress, cash, borrows, reserves, reserveFactorMantissa };
+}
+
+/**
+ * Queries the rates an interest rate model sets for the cash, borrows and
+ *     reserves of a market. The model is asked with `getBorrowRate` and
+ *     `getSupplyRate` instead of calculating the rates locally, so models
+ *     that are not a jump rate model get their own rates too.
+ *
+ * @hidden
+ *
+ * @param {string} modelAddress The address of the interest rate model.
+ * @param {BigNumber} cash The cash of the market.
+ * @param {BigNumber} borrows The total borrows of the market.
+ * @param {BigNumber} reserves The total reserves of the market.
+ * @param {BigNumber} reserveFactorMantissa The reserve factor of the market.
+ * @param {number} utilization The utilization of the point as a fraction.
+ * @param {number} [blocksPerYear] The blocks per year for the APYs.
+ * @param {CallOptions} options Call options for every `eth_call`.
+ *
+ * @returns {RateCurvePoint} Returns the rates per block and their APYs.
+ */
+async function queryRates(
+	modelAddress: string,
+	cash: BigNumber,
+	borrows: BigNumber,
+	reserves: BigNumber,
+	reserveFactorMantissa: BigNumber,
+	utilization: number,
+	blocksPerYear: number | undefined,
+	options: CallOptions
+): Promise<RateCurvePoint> {
+	const trxOptions: CallOptions = {
+		...options,
+		_compoundProvider: this._provider,
+		abi: abi.InterestRateModel,
+	};
+
+	const [borrowRate, supplyRate] = await Promise.all([
+		eth.read(
+			modelAddress,
+			"getBorrowRate",
+			[cash, borrows, reserves],
+			trxOptions
+		),
+		eth.read(
+			modelAddress,
+			"getSupplyRate",
+			[cash, borrows, reserves, reserveFactorMantissa],
+			trxOptions
+		),
+	]);
+
+	const borrowRatePerBlock = Number(borrowRate) / 1e18;
+	const supplyRatePerBlock = Number(supplyRate) / 1e18;
+
+	return {
+		utilization,
+		borrowRatePerBlock,
+		supplyRatePerBlock,
+		borrowApy: toApy(borrowRatePerBlock, { blocksPerYear }),
+		supplyApy: toApy(supplyRatePerBlock, { blocksPerYear }),
+	};
+}
+
+/**
+ * Reads the interest rate model of a market. Rates are per block, and the
+ *     borrow rate jumps from `multiplierPerBlock` to `jumpMultiplierPerBlock`
+ *     once utilization is above `kink`.
+ *
+ * @param {string} asset A string of the underlying asset or the cToken name
+ *     of the market.
+ * @param {CallOptions} [options] Call options and Ethers.js overrides for the
+ *     `eth_call`s.
+ *
+ * @returns {InterestRateModel} Returns the address and parameters of the
+ *     model.
+ *
+ * @example
+ *
+ * ```
+ * const tropykus = new Tropykus('https://public-node.rsk.co');
+ *
+ * (async function () {
+ *   const model = await tropykus.getInterestRateModel(Tropykus.DOC);
+ *   console.log('kDOC kink', model.kink);
+ * })().catch(console.error);
+ * ```
+ */
+export async function getInterestRateModel(
+	asset: string,
+	options: CallOptions = {}
+): Promise<InterestRateModel> {
+	await netId(this);
+	const errorPrefix = "Compound [getInterestRateModel] | ";
+
+	const market = getMarket(this, asset, errorPrefix);
+
+	return readInterestRateModel.bind(this)(
+		market.cTokenAddress,
+		options,
+		errorPrefix
+	);
+}
+
+/**
+ * Calculates the borrow and supply rates of a market across utilization,
+ *     from 0% to 100%, from its interest rate model and reserve factor. The
+ *     curve of a jump rate model is calculated from its parameters; other
+ *     models are asked for the rate of each point, a few at a time. The
+ *     current utilization of the market is returned too, to place it on the
+ *     curve.
+ *
+ * @param {string} asset A string of the underlying asset or the cToken name
+ *     of the market.
+ * @param {RateCurveOptions} [options] The number of `points` of the curve
+ *     (defaults to 101, every 1%), the `blocksPerYear` for the APYs and call
+ *     options for the `eth_call`s.
+ *
+ * @returns {RateCurve} Returns the address of the model, the current
+ *     utilization and the points of the curve.
+ *
+ * @example
+ *
+ * ```
+ * const tropykus = new Tropykus('https://public-node.rsk.co');
+ *
+ * (async function () {
+ *   const curve = await tropykus.getRateCurve(Tropykus.DOC, { points: 21 });
+ *   curve.points.forEach((p) => console.log(p.utilization, p.borrowApy));
+ * })().catch(console.error);
+ * ```
+ */
+export async function getRateCurve(
+	asset: string,
+	options: RateCurveOptions = {}
+): Promise<RateCurve> {
+	await netId(this);
+	const errorPrefix = "Compound [getRateCurve] | ";
+
+	const market = getMarket(this, asset, errorPrefix);
+
+	const { points = 101, blocksPerYear, ...callOptions } = options;
+
+	if (typeof points !== "number" || points < 2 || points % 1 !== 0) {
+		throw new ValidationError(
+			errorPrefix + "Option `points` must be an integer above 1."
+		);
+	}
+
+	const state = await readMarketState.bind(this)(
+		market.cTokenAddress,
+		callOptions
+	);
+	const parameters = await readModelParameters.bind(this)(
+		state.modelAddress,
+		callOptions
+	);
+	const reserveFactor = Number(state.reserveFactorMantissa) / 1e18;
+
+	const curve: RateCurvePoint[] = [];
+	if (parameters !== null) {
+		for (let i = 0; i < points; i++) {
+			curve.push(
+				ratesAt(parameters, i / (points - 1), reserveFactor, blocksPerYear)
+			);
+		}
+	} else {
+		// Each point keeps the funds of the market (cash plus borrows minus
+		//     reserves) and its reserves, and moves the funds from cash to
+		//     borrows. Empty markets are charted with 1 unit of funds.
+		let funds = state.cash.add(state.borrows).sub(state.reserves);
+		if (funds.lte(0)) {
+			funds = ethers.constants.WeiPerEther;
+		}
+
+		// The points are queried a few at a time, to stay under the rate limits
+		//     of public nodes.
+		for (let i = 0; i < points; i += maxConcurrentQueries) {
+			const batch = Array.from(
+				{ length: Math.min(maxConcurrentQueries, points - i) },
+				(_, j) => {
+					const borrows = funds.mul(i + j).div(points - 1);
+					const cash = funds.sub(borrows).add(state.reserves);
+
+					return queryRates.bind(this)(
+						state.modelAddress,
+						cash,
+						borrows,
+						state.reserves,
+						state.reserveFactorMantissa,
+						(i + j) / (points - 1),
+						blocksPerYear,
+						callOptions
+					);
+				}
+			);
+			curve.push(...(await Promise.all(batch)));
+		}
+	}
+
+	return {
+		asset: market.underlying,
+		cToken: market.cTokenName,
+		model: state.modelAddress,
+		reserveFactor,
+		utilization: utilizationRate(
+			Number(state.cash),
+			Number(state.borrows),
+			Number(state.reserves)
+		),
+		points: curve,
+	};
+}
+
+/**
+ * Predicts the utilization and rates of a market after a supply and/or a
+ *     borrow, using its current cash, borrows and reserves and its interest
+ *     rate model. Use negative deltas for redeems and repayments. Both the
+ *     current and simulated rates are queried from the model, so they differ
+ *     only by the effect of the action.
+ *
+ * @param {string} asset A string of the underlying asset or the cToken name
+ *     of the market.
+ * @param {RateSimulationOptions} [options] The `supplyDelta` and
+ *     `borrowDelta` in the underlying asset (use the `mantissa` option if they
+ *     are scaled up), the `blocksPerYear` for the APYs and call options for
+ *     the `eth_call`s.
+ *
+ * @returns {RateSimulation} Returns the current and simulated utilization and
+ *     rates of the market.
+ *
+ * @example
+ *
+ * ```
+ * const tropykus = new Tropykus('https://public-node.rsk.co');
+ *
+ * (async function () {
+ *   const result = await tropykus.simulateRates(Tropykus.DOC, {
+ *     supplyDelta: 1000000,
+ *   });
+ *   console.log('Supply APY', result.current.supplyApy, '->', result.simulated.supplyApy);
+ * })().catch(console.error);
+ * ```
+ */
+export async function simulateRates(
+	asset: string,
+	options: RateSimulationOptions = {}
+): Promise<RateSimulation> {
+	await netId(this);
+	const errorPrefix = "Compound [simulateRates] | ";
+
+	const market = getMarket(this, asset, errorPrefix);
+
+	const {
+		supplyDelta = 0,
+		borrowDelta = 0,
+		blocksPerYear,
+		...callOptions
+	} = options;
+
+	const deltas = [supplyDelta, borrowDelta].map((delta, i) => {
+		const name = i === 0 ? "supplyDelta" : "borrowDelta";
+
+		if (
+			typeof delta !== "number" &&
+			typeof delta !== "string" &&
+			!ethers.BigNumber.isBigNumber(delta)
+		) {
+			throw new ValidationError(
+				errorPrefix +
+					"Option `" +
+					name +
+					"` must be a string, number, or BigNumber."
+			);
+		}
+
+		// `NaN`, `Infinity` and strings that are not numbers cannot be parsed
+		const notFinite =
+			errorPrefix + "Option `" + name + "` must be a finite number.";
+
+		if (
+			!ethers.BigNumber.isBigNumber(delta) &&
+			!Number.isFinite(Number(delta))
+		) {
+			throw new ValidationError(notFinite);
+		}
+
+		try {
+			if (options.mantissa) {
+				return ethers.BigNumber.from(delta.toString());
+			}
+			return ethers.utils.parseUnits(
+				delta.toString(),
+				decimals[market.underlying]
+			);
+		} catch (error) {
+			throw new ValidationError(notFinite);
+		}
+	});
+
+	const state = await readMarketState.bind(this)(
+		market.cTokenAddress,
+		callOptions
+	);
+
+	const cash = state.cash.add(deltas[0]).sub(deltas[1]);
+	const borrows = state.borrows.add(deltas[1]);
+
+	if (cash.lt(0)) {
+		throw new ProtocolError(
+			errorPrefix + "Not enough cash in the market.",
+			"INSUFFICIENT_CASH"
+		);
+	}
+
+	if (borrows.lt(0)) {
+		throw new ProtocolError(
+			errorPrefix + "Repaying more than the total borrows.",
+			"TOO_MUCH_REPAY"
+		);
+	}
+
+	const [current, simulated] = await Promise.all([
+		queryRates.bind(this)(
+			state.modelAddress,
+			state.cash,
+			state.borrows,
+			state.reserves,
+			state.reserveFactorMantissa,
+			utilizationRate(
+				Number(state.cash),
+				Number(state.borrows),
+				Number(state.reserves)
+			),
+			blocksPerYear,
+			callOptions
+		),
+		queryRates.bind(this)(
+			state.modelAddress,
+			cash,
+			borrows,
+			state.reserves,
+			state.reserveFactorMantissa,
+			utilizationRate(Number(cash), Number(borrows), Number(state.reserves)),
+			blocksPerYear,
+			callOptions
+		),
+	]);
+
+	return {
+		asset: market.underlying,
+		cToken: market.cTokenName,
+		current,
+		simulated,
+	};
+}
@@ -0,0 +1,141 @@
+/**
+ * @file Market
+ * @desc These methods read the state of the cToken markets directly from the
+ *     chain, without relying on the Tropykus API.
+ */
+
+import * as eth from "./eth";
+import { netId, getMarket, getMarkets } from "./helpers";
+import { decimals } from "./constants";
+import { CallOptions, MarketInfo, MarketSnapshot } from "./types";
+
+/**
+ * Reads the snapshot of a single market from its cToken contract.
+ *
+ * @hidden
+ *
+ * @param {MarketInfo} market The market to read.
+ * @param {CallOptions} options Call options for every `eth_call`.
+ *
+ * @returns {MarketSnapshot} Returns the decimal-normalized market snapshot.
+ */
+async function readMarketSnapshot(
+	market: MarketInfo,
+	options: CallOptions
+): Promise<MarketSnapshot> {
+	const trxOptions: CallOptions = {
+		...options,
+		_compoundProvider: this._provider,
+		abi: market.abi,
+	};
+
+	const [
+		supplyRatePerBlock,
+		borrowRatePerBlock,
+		cash,
+		totalBorrows,
+		totalReserves,
+		totalSupply,
+		exchangeRateStored,
+		reserveFactorMantissa,
+	] = await Promise.all(
+		[
+			"supplyRatePerBlock",
+			"borrowRatePerBlock",
+			"getCash",
+			"totalBorrows",
+			"totalReserves",
+			"totalSupply",
+			"exchangeRateStored",
+			"reserveFactorMantissa",
+		].map((method) =>
+			eth.read(market.cTokenAddress, method, [], trxOptions)
+		)
+	);
+
+	const underlyingDecimals = decimals[market.underlying];
+	const cTokenDecimals = decimals[market.cTokenName];
+	const exchangeRateDecimals = 18 + underlyingDecimals - cTokenDecimals;
+
+	return {
+		asset: market.underlying,
+		cToken: market.cTokenName,
+		address: market.cTokenAddress,
+		supplyRatePerBlock: Number(supplyRatePerBlock) / 1e18,
+		borrowRatePerBlock: Number(borrowRatePerBlock) / 1e18,
+		cash: Number(cash) / Math.pow(10, underlyingDecimals),
+		totalBorrows: Number(totalBorrows) / Math.pow(10, underlyingDecimals),
+		totalReserves: Number(totalReserves) / Math.pow(10, underlyingDecimals),
+		totalSupply: Number(totalSupply) / Math.pow(10, cTokenDecimals),
+		exchangeRate:
+			Number(exchangeRateStored) / Math.pow(10, exchangeRateDecimals),
+		reserveFactor: Number(reserveFactorMantissa) / 1e18,
+	};
+}
+
+/**
+ * Reads the current state of a market from its cToken contract. Rates are
+ *     per block, amounts are in the underlying asset (`totalSupply` is in
+ *     cTokens) and the exchange rate is the amount of underlying per cToken.
+ *
+ * @param {string} asset A string of the underlying asset or the cToken name
+ *     of the market.
+ * @param {CallOptions} [options] Call options and Ethers.js overrides for the
+ *     `eth_call`s, like `blockTag`.
+ *
+ * @returns {MarketSnapshot} Returns an object with the market state.
+ *
+ * @example
+ *
+ * ```
+ * const tropykus = new Tropykus('https://public-node.rsk.co');
+ *
+ * (async function () {
+ *   const kDOC = await tropykus.getMarketSnapshot(Tropykus.DOC);
+ *   console.log('kDOC cash', kDOC.cash);
+ * })().catch(console.error);
+ * ```
+ */
+export async function getMarketSnapshot(
+	asset: string,
+	options: CallOptions = {}
+): Promise<MarketSnapshot> {
+	await netId(this);
+	const errorPrefix = "Compound [getMarketSnapshot] | ";
+
+	const market = getMarket(this, asset, errorPrefix);
+
+	return readMarketSnapshot.bind(this)(market, options);
+}
+
+/**
+ * Reads the current state of every market the SDK knows for the network of
+ *     the provider. See `getMarketSnapshot` for the shape of each entry.
+ *
+ * @param {CallOptions} [options] Call options and Ethers.js overrides for the
+ *     `eth_call`s, like `blockTag`.
+ *
+ * @returns {MarketSnapshot[]} Returns an array with the state of each market.
+ *
+ * @example
+ *
+ * ```
+ * const tropykus = new Tropykus('https://public-node.rsk.co');
+ *
+ * (async function () {
+ *   const markets = await tropykus.getAllMarketSnapshots();
+ *   markets.forEach((m) => console.log(m.cToken, m.totalBorrows));
+ * })().catch(console.error);
+ * ```
+ */
+export async function getAllMarketSnapshots(
+	options: CallOptions = {}
+): Promise<MarketSnapshot[]> {
+	await netId(this);
+
+	return Promise.all(
+		getMarkets(this).map((market) =>
+			readMarketSnapshot.bind(this)(market, options)
+		)
+	);
+}
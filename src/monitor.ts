@@ -0,0 +1,246 @@
+/**
+ * @file Monitor
+ * @desc These methods calculate the health of an account, its collateral
+ *     value weighted by the collateral factors against its borrow value, and
+ *     watch it to alert before the account can be liquidated.
+ */
+
+import { ethers } from "ethers";
+import * as eth from "./eth";
+import { netId } from "./helpers";
+import { address, abi } from "./constants";
+import { BigNumber } from "@ethersproject/bignumber/lib/bignumber";
+import { AccountHealth, CallOptions, HealthMonitorOptions } from "./types";
+import { getNetNameWithChainId } from "./util";
+import { decodeFailure, ProtocolError, ValidationError } from "./errors";
+
+// Milliseconds between health checks, about one RSK block
+const defaultPollingInterval = 30000;
+
+const defaultWarningThreshold = 1.25;
+const defaultCriticalThreshold = 1.1;
+
+/**
+ * Calculates the health of an account from the markets it entered. Values
+ *     are in USD, at the prices of the oracle of the Comptroller.
+ *
+ * @param {string} account The address of the account.
+ * @param {CallOptions} [options] Call options and Ethers.js overrides for the
+ *     `eth_call`s, like `blockTag`.
+ *
+ * @returns {AccountHealth} Returns the collateral value weighted by the
+ *     collateral factors, the borrow value and their ratio, the health factor.
+ *     The account can be liquidated when the health factor is below 1, and
+ *     the factor is `Infinity` when it has no borrows.
+ *
+ * @example
+ *
+ * ```
+ * const tropykus = new Tropykus('https://public-node.rsk.co');
+ *
+ * (async function () {
+ *   const health = await tropykus.getAccountHealth('0x123...');
+ *   console.log('Health factor', health.healthFactor);
+ * })().catch(console.error);
+ * ```
+ */
+export async function getAccountHealth(
+	account: string,
+	options: CallOptions = {}
+): Promise<AccountHealth> {
+	await netId(this);
+	const errorPrefix = "Compound [getAccountHealth] | ";
+
+	if (!ethers.utils.isAddress(account)) {
+		throw new ValidationError(
+			errorPrefix + "Argument `account` must be a valid Ethereum address."
+		);
+	}
+
+	const comptrollerAddress =
+		address[getNetNameWithChainId(this._network.id)].Comptroller;
+
+	const compOptions: CallOptions = {
+		...options,
+		_compoundProvider: this._provider,
+		abi: abi.Comptroller,
+	};
+
+	const [assetsIn, accountLiquidity, oracleAddress] = await Promise.all([
+		eth.read(comptrollerAddress, "getAssetsIn", [account], compOptions),
+		eth.read(comptrollerAddress, "getAccountLiquidity", [account], compOptions),
+		eth.read(comptrollerAddress, "oracle", [], compOptions),
+	]);
+
+	if (!accountLiquidity[0].isZero()) {
+		const failure = decodeFailure("comptroller", Number(accountLiquidity[0]));
+		throw new ProtocolError(
+			errorPrefix + "Comptroller returned an error. " + failure.description,
+			failure.errorName
+		);
+	}
+
+	// Every value is a mantissa: the oracle scales prices so that an amount of
+	//     the underlying asset times its price is in USD with 18 decimals.
+	const values: BigNumber[][] = await Promise.all(
+		(assetsIn as string[]).map(async (cTokenAddress) => {
+			const [snapshot, marketConfig, price] = await Promise.all([
+				eth.read(cTokenAddress, "getAccountSnapshot", [account], {
+					...options,
+					_compoundProvider: this._provider,
+					abi: abi.cErc20,
+				}),
+				eth.read(comptrollerAddress, "markets", [cTokenAddress], compOptions),
+				eth.read(oracleAddress, "getUnderlyingPrice", [cTokenAddress], {
+					...options,
+					_compoundProvider: this._provider,
+					abi: abi.PriceOracle,
+				}),
+			]);
+
+			if (!snapshot[0].isZero()) {
+				const failure = decodeFailure("cToken", Number(snapshot[0]));
+				throw new ProtocolError(
+					errorPrefix +
+						"Market `" +
+						cTokenAddress +
+						"` returned an error. " +
+						failure.description,
+					failure.errorName
+				);
+			}
+
+			const supplied: BigNumber = snapshot[1]
+				.mul(snapshot[3])
+				.div(ethers.constants.WeiPerEther);
+
+			return [
+				supplied
+					.mul(marketConfig.collateralFactorMantissa)
+					.div(ethers.constants.WeiPerEther)
+					.mul(price)
+					.div(ethers.constants.WeiPerEther),
+				snapshot[2].mul(price).div(ethers.constants.WeiPerEther),
+			];
+		})
+	);
+
+	const collateralValue =
+		values.reduce((sum, v) => sum + Number(v[0]), 0) / 1e18;
+	const borrowValue = values.reduce((sum, v) => sum + Number(v[1]), 0) / 1e18;
+
+	return {
+		account,
+		collateralValue,
+		borrowValue,
+		healthFactor: borrowValue > 0 ? collateralValue / borrowValue : Infinity,
+		liquidity: Number(accountLiquidity[1]) / 1e18,
+		shortfall: Number(accountLiquidity[2]) / 1e18,
+	};
+}
+
+/**
+ * Watches the health of an account and calls back when its health factor
+ *     crosses a threshold: `onWarning` when it falls below the
+ *     `warningThreshold`, `onCritical` when it falls below the
+ *     `criticalThreshold` and `onRecovered` when it goes back above the
+ *     `warningThreshold`. The health is checked right away, so an account that
+ *     is already below a threshold is reported by the first check, and then
+ *     every `pollingInterval` milliseconds. Failed checks are reported to
+ *     `onError` and retried on the next interval.
+ *
+ * @param {string} account The address of the account.
+ * @param {HealthMonitorOptions} [options] The thresholds (1.25 and 1.1 by
+ *     default), the `pollingInterval` (30 seconds by default), the callbacks
+ *     and call options for the `eth_call`s.
+ *
+ * @returns {function} Returns a function that stops the monitor.
+ *
+ * @example
+ *
+ * ```
+ * const tropykus = new Tropykus('https://public-node.rsk.co');
+ *
+ * (async function () {
+ *   const stop = await tropykus.monitorAccountHealth('0x123...', {
+ *     onWarning: (h) => console.log('Add collateral, health', h.healthFactor),
+ *     onCritical: (h) => console.log('Close to liquidation', h.healthFactor),
+ *   });
+ * })().catch(console.error);
+ * ```
+ */
+export async function monitorAccountHealth(
+	account: string,
+	options: HealthMonitorOptions = {}
+): Promise<() => void> {
+	await netId(this);
+	const errorPrefix = "Compound [monitorAccountHealth] | ";
+
+	const {
+		warningThreshold = defaultWarningThreshold,
+		criticalThreshold = defaultCriticalThreshold,
+		pollingInterval = defaultPollingInterval,
+		onUpdate,
+		onWarning,
+		onCritical,
+		onRecovered,
+		onError,
+		...callOptions
+	} = options;
+
+	if (
+		typeof warningThreshold !== "number" ||
+		typeof criticalThreshold !== "number" ||
+		!(criticalThreshold >= 1) ||
+		!(warningThreshold >= criticalThreshold)
+	) {
+		throw new ValidationError(
+			errorPrefix +
+				"Option `criticalThreshold` must be at least 1 and `warningThreshold` at least `criticalThreshold`."
+		);
+	}
+
+	const levelOf = (healthFactor: number) => {
+		if (healthFactor < criticalThreshold) {
+			return 2;
+		}
+
+		return healthFactor < warningThreshold ? 1 : 0;
+	};
+
+	const check = async (level: number) => {
+		const health = await getAccountHealth.bind(this)(account, callOptions);
+		const newLevel = levelOf(health.healthFactor);
+
+		if (onUpdate) {
+			onUpdate(health);
+		}
+
+		if (newLevel === 2 && level !== 2 && onCritical) {
+			onCritical(health);
+		} else if (newLevel === 1 && level === 0 && onWarning) {
+			onWarning(health);
+		} else if (newLevel === 0 && level !== 0 && onRecovered) {
+			onRecovered(health);
+		}
+
+		return newLevel;
+	};
+
+	// The first check throws, like the other methods, for an invalid account
+	//     or network.
+	let level = await check(0);
+	let checking = false;
+
+	const timer = setInterval(() => {
+		if (!checking) {
+			checking = true;
+			check(level)
+				.then((newLevel) => (level = newLevel))
+				.catch((error) => onError && onError(error))
+				.then(() => (checking = false));
+		}
+	}, pollingInterval);
+
+	return () => clearInterval(timer);
+}
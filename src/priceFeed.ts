@@ -17,6 +17,7 @@ import {
 } from "./constants";
 import { CallOptions } from "./types";
 import { getNetNameWithChainId } from "./util";
+import { ValidationError } from "./errors";
 
 function validateAsset(
 	asset: string,
@@ -24,7 +25,7 @@ function validateAsset(
 	errorPrefix: string
 ): (boolean | string | number)[] {
 	if (typeof asset !== "string" || asset.length < 1) {
-		throw Error(
+		throw new ValidationError(
 			errorPrefix + "Argument `" + argument + "` must be a non-empty string."
 		);
 	}
@@ -43,7 +44,9 @@ function validateAsset(
 		(!cTokens.includes(cTokenName) || !underlyings.includes(underlyingName)) &&
 		!opfAssets.includes(underlyingName)
 	) {
-		throw Error(errorPrefix + "Argument `" + argument + "` is not supported.");
+		throw new ValidationError(
+			errorPrefix + "Argument `" + argument + "` is not supported."
+		);
 	}
 
 	const underlyingDecimals = decimals[underlyingName];
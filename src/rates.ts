@@ -0,0 +1,215 @@
+/**
+ * @file Rates
+ * @desc These methods calculate the interest rates of the cToken markets:
+ *     yearly rates from per block rates, and the rates an interest rate model
+ *     sets at a given utilization.
+ */
+
+import { ethers } from "ethers";
+import { BigNumber } from "@ethersproject/bignumber/lib/bignumber";
+import { blocksPerYear as rskBlocksPerYear } from "./constants";
+import { InterestRateModelParameters, RateOptions } from "./types";
+import { ValidationError } from "./errors";
+
+/**
+ * Normalizes a per block rate and validates the conversion options.
+ *
+ * @hidden
+ *
+ * @param {number | string | BigNumber} ratePerBlock The rate to normalize.
+ * @param {RateOptions} options The conversion options.
+ * @param {string} errorPrefix The prefix of the errors thrown.
+ *
+ * @returns {number[]} Returns the rate per block as a fraction and the number
+ *     of blocks in a year.
+ */
+function parseRate(
+	ratePerBlock: number | string | BigNumber,
+	options: RateOptions,
+	errorPrefix: string
+): number[] {
+	if (
+		typeof ratePerBlock !== "number" &&
+		typeof ratePerBlock !== "string" &&
+		!ethers.BigNumber.isBigNumber(ratePerBlock)
+	) {
+		throw new ValidationError(
+			errorPrefix +
+				"Argument `ratePerBlock` must be a string, number, or BigNumber."
+		);
+	}
+
+	const blocks =
+		options.blocksPerYear === undefined
+			? rskBlocksPerYear
+			: options.blocksPerYear;
+
+	if (typeof blocks !== "number" || !(blocks > 0)) {
+		throw new ValidationError(
+			errorPrefix + "Option `blocksPerYear` must be a positive number."
+		);
+	}
+
+	const rate = options.mantissa
+		? Number(ratePerBlock.toString()) / 1e18
+		: Number(ratePerBlock.toString());
+
+	return [rate, blocks];
+}
+
+/**
+ * Converts a per block rate, like `supplyRatePerBlock` or
+ *     `borrowRatePerBlock`, into a simple (non compounded) yearly rate.
+ *
+ * @param {number | string | BigNumber} ratePerBlock The rate per block. Use
+ *     the `mantissa` option if it is scaled up by 1e18, as returned by the
+ *     cToken contracts.
+ * @param {RateOptions} [options] The number of `blocksPerYear`, defaults to
+ *     RSK's ~30 second blocks, and the `mantissa` flag.
+ *
+ * @returns {number} Returns the APR as a fraction (0.05 is 5%).
+ *
+ * @example
+ *
+ * ```
+ * const apr = Tropykus.rates.toApr('31709791983', { mantissa: true });
+ * console.log('APR', apr * 100, '%');
+ * ```
+ */
+export function toApr(
+	ratePerBlock: number | string | BigNumber,
+	options: RateOptions = {}
+): number {
+	const [rate, blocks] = parseRate(
+		ratePerBlock,
+		options,
+		"Compound [toApr] | "
+	);
+
+	return rate * blocks;
+}
+
+/**
+ * Converts a per block rate, like `supplyRatePerBlock` or
+ *     `borrowRatePerBlock`, into a yearly rate compounded every block, which
+ *     is how interest accrues in the cToken markets.
+ *
+ * @param {number | string | BigNumber} ratePerBlock The rate per block. Use
+ *     the `mantissa` option if it is scaled up by 1e18, as returned by the
+ *     cToken contracts.
+ * @param {RateOptions} [options] The number of `blocksPerYear`, defaults to
+ *     RSK's ~30 second blocks, and the `mantissa` flag.
+ *
+ * @returns {number} Returns the APY as a fraction (0.05 is 5%).
+ *
+ * @example
+ *
+ * ```
+ * const tropykus = new Tropykus('https://public-node.rsk.co');
+ *
+ * (async function () {
+ *   const kDOC = await tropykus.getMarketSnapshot(Tropykus.DOC);
+ *   const apy = Tropykus.rates.toApy(kDOC.supplyRatePerBlock);
+ *   console.log('kDOC supply APY', apy * 100, '%');
+ * })().catch(console.error);
+ * ```
+ */
+export function toApy(
+	ratePerBlock: number | string | BigNumber,
+	options: RateOptions = {}
+): number {
+	const [rate, blocks] = parseRate(
+		ratePerBlock,
+		options,
+		"Compound [toApy] | "
+	);
+
+	return Math.expm1(blocks * Math.log1p(rate));
+}
+
+/**
+ * Calculates the utilization of a market, the share of its funds that is
+ *     borrowed. Amounts can be in any unit, as long as it is the same for all.
+ *
+ * @param {number} cash The cash of the market.
+ * @param {number} borrows The total borrows of the market.
+ * @param {number} reserves The total reserves of the market.
+ *
+ * @returns {number} Returns the utilization as a fraction (0.8 is 80%).
+ *
+ * @example
+ *
+ * ```
+ * const u = Tropykus.rates.utilizationRate(kDOC.cash, kDOC.totalBorrows, kDOC.totalReserves);
+ * ```
+ */
+export function utilizationRate(
+	cash: number,
+	borrows: number,
+	reserves: number
+): number {
+	if (borrows === 0) {
+		return 0;
+	}
+
+	return borrows / (cash + borrows - reserves);
+}
+
+/**
+ * Calculates the borrow rate per block a jump rate model charges at a
+ *     utilization. Models without a kink use a `kink` of 1.
+ *
+ * @param {InterestRateModelParameters} model The parameters of the model.
+ * @param {number} utilization The utilization as a fraction.
+ *
+ * @returns {number} Returns the borrow rate per block as a fraction.
+ *
+ * @example
+ *
+ * ```
+ * const model = await tropykus.getInterestRateModel(Tropykus.DOC);
+ * const rate = Tropykus.rates.borrowRateAt(model, 0.9);
+ * ```
+ */
+export function borrowRateAt(
+	model: InterestRateModelParameters,
+	utilization: number
+): number {
+	if (utilization <= model.kink) {
+		return utilization * model.multiplierPerBlock + model.baseRatePerBlock;
+	}
+
+	const normalRate =
+		model.kink * model.multiplierPerBlock + model.baseRatePerBlock;
+	const excessUtilization = utilization - model.kink;
+
+	return excessUtilization * model.jumpMultiplierPerBlock + normalRate;
+}
+
+/**
+ * Calculates the supply rate per block a jump rate model pays at a
+ *     utilization, after the reserve factor of the market is taken.
+ *
+ * @param {InterestRateModelParameters} model The parameters of the model.
+ * @param {number} utilization The utilization as a fraction.
+ * @param {number} reserveFactor The reserve factor of the market as a
+ *     fraction.
+ *
+ * @returns {number} Returns the supply rate per block as a fraction.
+ *
+ * @example
+ *
+ * ```
+ * const model = await tropykus.getInterestRateModel(Tropykus.DOC);
+ * const rate = Tropykus.rates.supplyRateAt(model, 0.9, kDOC.reserveFactor);
+ * ```
+ */
+export function supplyRateAt(
+	model: InterestRateModelParameters,
+	utilization: number,
+	reserveFactor: number
+): number {
+	return (
+		utilization * borrowRateAt(model, utilization) * (1 - reserveFactor)
+	);
+}
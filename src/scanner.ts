@@ -0,0 +1,144 @@
+/**
+ * @file Scanner
+ * @desc These methods find the accounts of the protocol from the events of the
+ *     Comptroller and the cToken markets, without relying on an indexer.
+ */
+
+import * as eth from "./eth";
+import { netId, getMarkets } from "./helpers";
+import { address, abi } from "./constants";
+import { CallOptions, EventOptions, UnderwaterAccount } from "./types";
+import { getNetNameWithChainId } from "./util";
+
+// Accounts whose liquidity is read at the same time
+const accountsPerRound = 50;
+
+/**
+ * Finds the accounts that have entered a market or borrowed in a block range,
+ *     from the `MarketEntered` events of the Comptroller and the `Borrow`
+ *     events of the cToken markets.
+ *
+ * @param {EventOptions} options The `fromBlock` (required), `toBlock` and
+ *     `blockRange` of the scan, and call options for the `eth_getLogs`.
+ *
+ * @returns {string[]} Returns the addresses of the accounts, without
+ *     duplicates.
+ *
+ * @example
+ *
+ * ```
+ * const tropykus = new Tropykus('https://public-node.rsk.co');
+ *
+ * (async function () {
+ *   const accounts = await tropykus.getBorrowers({ fromBlock: 3000000 });
+ *   console.log('Accounts', accounts.length);
+ * })().catch(console.error);
+ * ```
+ */
+export async function getBorrowers(
+	options: EventOptions = {}
+): Promise<string[]> {
+	await netId(this);
+
+	const comptrollerAddress =
+		address[getNetNameWithChainId(this._network.id)].Comptroller;
+
+	const eventOptions: EventOptions = {
+		...options,
+		_compoundProvider: this._provider,
+	};
+
+	const enteredEvents = await eth.getEvents(
+		comptrollerAddress,
+		"MarketEntered",
+		{ ...eventOptions, abi: abi.Comptroller }
+	);
+	const borrowEvents = await eth.getEvents(
+		getMarkets(this).map((market) => market.cTokenAddress),
+		"Borrow",
+		{ ...eventOptions, abi: abi.cErc20 }
+	);
+
+	const accounts = {};
+	enteredEvents
+		.map((e) => e.args.account)
+		.concat(borrowEvents.map((e) => e.args.borrower))
+		.forEach((account) => {
+			accounts[account.toLowerCase()] = account;
+		});
+
+	return Object.keys(accounts).map((key) => accounts[key]);
+}
+
+/**
+ * Scans a block range for accounts with a shortfall, the accounts that can be
+ *     liquidated. The accounts are found with `getBorrowers` and their
+ *     liquidity is read from the Comptroller at the latest block.
+ *
+ * @param {EventOptions} options The `fromBlock` (required), `toBlock` and
+ *     `blockRange` of the scan, and call options for the `eth_call`s and
+ *     `eth_getLogs`.
+ *
+ * @returns {UnderwaterAccount[]} Returns the accounts with a shortfall and
+ *     their shortfall in USD, the largest first.
+ *
+ * @example
+ *
+ * ```
+ * const tropykus = new Tropykus('https://public-node.rsk.co', { batch: true });
+ *
+ * (async function () {
+ *   const accounts = await tropykus.getUnderwaterAccounts({ fromBlock: 3000000 });
+ *   accounts.forEach((a) => console.log(a.account, a.shortfall));
+ * })().catch(console.error);
+ * ```
+ */
+export async function getUnderwaterAccounts(
+	options: EventOptions = {}
+): Promise<UnderwaterAccount[]> {
+	await netId(this);
+
+	const { fromBlock, toBlock, blockRange, ...callOptions } = options;
+
+	const accounts = await getBorrowers.bind(this)({
+		...callOptions,
+		fromBlock,
+		toBlock,
+		blockRange,
+	});
+
+	const comptrollerAddress =
+		address[getNetNameWithChainId(this._network.id)].Comptroller;
+
+	const trxOptions: CallOptions = {
+		...callOptions,
+		_compoundProvider: this._provider,
+		abi: abi.Comptroller,
+	};
+
+	const underwater: UnderwaterAccount[] = [];
+	for (let i = 0; i < accounts.length; i += accountsPerRound) {
+		const round = accounts.slice(i, i + accountsPerRound);
+		const results = await Promise.all(
+			round.map((account) =>
+				eth.read(
+					comptrollerAddress,
+					"getAccountLiquidity",
+					[account],
+					trxOptions
+				)
+			)
+		);
+
+		results.forEach((result, j) => {
+			if (result[0].isZero() && result[2].gt(0)) {
+				underwater.push({
+					account: round[j],
+					shortfall: Number(result[2]) / 1e18,
+				});
+			}
+		});
+	}
+
+	return underwater.sort((a, b) => b.shortfall - a.shortfall);
+}
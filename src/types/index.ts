@@ -5,7 +5,7 @@ import {
   FallbackProvider
 } from '@ethersproject/providers/lib/fallback-provider';
 import {
-  BlockTag, TransactionRequest, TransactionResponse
+  BlockTag, TransactionReceipt, TransactionRequest, TransactionResponse
 } from '@ethersproject/abstract-provider';
 import { Deferrable } from '@ethersproject/properties';
 import { BigNumber } from '@ethersproject/bignumber/lib/bignumber';
@@ -14,6 +14,9 @@ import { BigNumber } from '@ethersproject/bignumber/lib/bignumber';
 
 export interface CompoundInstance {
   _networkPromise: Promise<ProviderNetwork>;
+  _network?: ProviderNetwork;
+  _provider?: Provider;
+  _subscriptions?: Subscription[];
 }
 
 export interface CometInstance {
@@ -25,6 +28,7 @@ export interface CompoundOptions {
   privateKey?: string;
   mnemonic?: string;
   provider?: Provider | string;
+  batch?: boolean;
 }
 
 
@@ -63,11 +67,23 @@ export interface CallOptions {
   mnemonic?: string;
   mantissa?: boolean;
   blockTag?: number | string;
+  batch?: boolean;
   // blockNumber?: string;
   // id?: number;
 }
 
+export interface EventOptions extends CallOptions {
+  fromBlock?: number | string;
+  toBlock?: number | string;
+  blockRange?: number;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  args?: any[];
+}
+
+export type TrxStatus = 'pending' | 'mined' | 'replaced' | 'dropped';
+
 export interface EthersTrx {
+  hash: string;
   nonce: number;
   gasPrice: BigNumber;
   gasLimit: BigNumber;
@@ -77,6 +93,13 @@ export interface EthersTrx {
   chainId: number;
   from: string;
   wait: void;
+  getStatus: () => Promise<TrxStatus>;
+  waitForConfirmations: (
+    confirmations?: number,
+    pollingInterval?: number
+  ) => Promise<TransactionReceipt>;
+  speedUp: (gasPrice?: number | string | BigNumber) => Promise<EthersTrx>;
+  cancel: (gasPrice?: number | string | BigNumber) => Promise<EthersTrx>;
 }
 
 export interface TrxError {
@@ -130,6 +153,303 @@ export interface Provider extends AbstractSigner, FallbackProvider {
 }
 
 
+// =-=-=-=-=-= /src/errors.ts =-=-=-=-=-=
+
+export interface ProtocolFailure {
+  source: 'comptroller' | 'cToken';
+  address?: string;
+  error: number;
+  errorName: string;
+  info: number | null;
+  infoName: string | null;
+  detail: number;
+  description: string;
+  hint: string;
+}
+
+// =-=-=-=-=-= /src/allowance.ts =-=-=-=-=-=
+
+export type ApprovalStrategy = 'exact' | 'unlimited' | 'none';
+
+export interface MarketAllowance {
+  asset: string;
+  cToken: string;
+  address: string;
+  underlyingAddress: string;
+  allowance: number | string;
+  unlimited: boolean;
+}
+
+// =-=-=-=-=-= /src/gas.ts =-=-=-=-=-=
+
+export interface GasPrices {
+  slow: BigNumber;
+  standard: BigNumber;
+  fast: BigNumber;
+  minimumGasPrice: BigNumber;
+  gasPrice: BigNumber;
+}
+
+// =-=-=-=-=-= /src/cToken.ts =-=-=-=-=-=
+
+export type TransactionStep =
+  'approvalRequested' | 'approvalSent' | 'approvalMined' | 'transactionSent' |
+  'enterMarketsSent';
+
+export type TransactionStepHandler = (
+  step: TransactionStep,
+  transaction?: TrxResponse
+) => void;
+
+export interface SupplyOptions extends CallOptions {
+  asCollateral?: boolean;
+  approvalStrategy?: ApprovalStrategy;
+  onStep?: TransactionStepHandler;
+}
+
+export interface RepayBorrowOptions extends CallOptions {
+  approvalStrategy?: ApprovalStrategy;
+  onStep?: TransactionStepHandler;
+}
+
+// =-=-=-=-=-= /src/comptroller.ts =-=-=-=-=-=
+
+export interface LiquidationQuote {
+  borrower: string;
+  repayAsset: string;
+  collateralAsset: string;
+  repayAmount: number;
+  maxRepayAmount: number;
+  seizeTokens: number;
+  seizeAmount: number;
+  closeFactor: number;
+  liquidationIncentive: number;
+  shortfall: number;
+}
+
+export interface MarketConfig {
+  asset: string;
+  cToken: string;
+  address: string;
+  isListed: boolean;
+  collateralFactorMantissa: string;
+  borrowCaps: string;
+  mintGuardianPaused: boolean;
+  borrowGuardianPaused: boolean;
+  closeFactorMantissa: string;
+  liquidationIncentiveMantissa: string;
+  maxAssets: number;
+  oracle: string;
+}
+
+// =-=-=-=-=-= /src/helpers.ts =-=-=-=-=-=
+
+export interface MarketInfo {
+  underlying: string;
+  cTokenName: string;
+  cTokenAddress: string;
+  underlyingAddress?: string;
+  isNative: boolean;
+  abi: AbiItem[];
+}
+
+
+// =-=-=-=-=-= /src/market.ts =-=-=-=-=-=
+
+export interface MarketSnapshot {
+  asset: string;
+  cToken: string;
+  address: string;
+  supplyRatePerBlock: number;
+  borrowRatePerBlock: number;
+  cash: number;
+  totalBorrows: number;
+  totalReserves: number;
+  totalSupply: number;
+  exchangeRate: number;
+  reserveFactor: number;
+}
+
+
+// =-=-=-=-=-= /src/account.ts =-=-=-=-=-=
+
+export interface AccountPosition {
+  asset: string;
+  cToken: string;
+  address: string;
+  cTokenBalance: number;
+  deposits: number;
+  borrows: number;
+  exchangeRate: number;
+  isCollateral: boolean;
+}
+
+
+export interface InterestSummary {
+  asset: string;
+  cToken: string;
+  deposits: number;
+  netDeposits: number;
+  depositsInterest: number;
+  borrows: number;
+  netBorrows: number;
+  borrowInterest: number;
+}
+
+// =-=-=-=-=-= /src/scanner.ts =-=-=-=-=-=
+
+export interface UnderwaterAccount {
+  account: string;
+  shortfall: number;
+}
+
+// =-=-=-=-=-= /src/history.ts =-=-=-=-=-=
+
+export interface AccountHistoryEntry {
+  event: string;
+  asset: string;
+  cToken: string;
+  amount: number;
+  cTokens: number;
+  counterparty: string | null;
+  blockNumber: number;
+  timestamp: number;
+  transactionHash: string;
+  logIndex: number;
+}
+
+// =-=-=-=-=-= /src/events.ts =-=-=-=-=-=
+
+export interface EventSubscriptionFilter {
+  markets?: string[];
+  args?: { [name: string]: string | number | boolean };
+  pollingInterval?: number;
+  onError?: (error: Error) => void;
+}
+
+export interface ProtocolEvent {
+  event: string;
+  market: string | null;
+  address: string;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  args: { [name: string]: any };
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+}
+
+export type ProtocolEventHandler = (event: ProtocolEvent) => void;
+
+export interface Subscription {
+  eventName: string;
+  handler: ProtocolEventHandler;
+  stop: () => void;
+}
+
+// =-=-=-=-=-= /src/monitor.ts =-=-=-=-=-=
+
+export interface AccountHealth {
+  account: string;
+  collateralValue: number;
+  borrowValue: number;
+  healthFactor: number;
+  liquidity: number;
+  shortfall: number;
+}
+
+export type AccountHealthHandler = (health: AccountHealth) => void;
+
+export interface HealthMonitorOptions extends CallOptions {
+  warningThreshold?: number;
+  criticalThreshold?: number;
+  pollingInterval?: number;
+  onUpdate?: AccountHealthHandler;
+  onWarning?: AccountHealthHandler;
+  onCritical?: AccountHealthHandler;
+  onRecovered?: AccountHealthHandler;
+  onError?: (error: Error) => void;
+}
+
+// =-=-=-=-=-= /src/exporter.ts =-=-=-=-=-=
+
+export interface StatementOptions extends EventOptions {
+  format?: string;
+}
+
+export interface StatementEntry {
+  date: string;
+  timestamp: number;
+  blockNumber: number;
+  transactionHash: string;
+  event: string;
+  asset: string;
+  cToken: string | null;
+  amount: number;
+  cTokens: number;
+  priceUsd: number | null;
+  valueUsd: number | null;
+  costBasisUsd: number | null;
+  realizedGainUsd: number | null;
+  counterparty: string | null;
+}
+
+// =-=-=-=-=-= /src/rates.ts =-=-=-=-=-=
+
+export interface RateOptions {
+  blocksPerYear?: number;
+  mantissa?: boolean;
+}
+
+export interface InterestRateModelParameters {
+  baseRatePerBlock: number;
+  multiplierPerBlock: number;
+  jumpMultiplierPerBlock: number;
+  kink: number;
+}
+
+
+// =-=-=-=-=-= /src/interestRateModel.ts =-=-=-=-=-=
+
+export interface InterestRateModel extends InterestRateModelParameters {
+  address: string;
+}
+
+export interface RateCurveOptions extends CallOptions {
+  points?: number;
+  blocksPerYear?: number;
+}
+
+export interface RateCurvePoint {
+  utilization: number;
+  borrowRatePerBlock: number;
+  supplyRatePerBlock: number;
+  borrowApy: number;
+  supplyApy: number;
+}
+
+export interface RateSimulationOptions extends CallOptions {
+  supplyDelta?: number | string | BigNumber;
+  borrowDelta?: number | string | BigNumber;
+  blocksPerYear?: number;
+}
+
+export interface RateSimulation {
+  asset: string;
+  cToken: string;
+  current: RateCurvePoint;
+  simulated: RateCurvePoint;
+}
+
+export interface RateCurve {
+  asset: string;
+  cToken: string;
+  model: string;
+  reserveFactor: number;
+  utilization: number;
+  points: RateCurvePoint[];
+}
+
+
 // =-=-=-=-=-= /src/EIP712.ts =-=-=-=-=-=
 
 export interface Signature {
@@ -5,9 +5,12 @@
 
 import { address, abi } from "./constants";
 import { AbiType } from "./types";
+import { RpcError, ValidationError } from "./errors";
 
 /* eslint-disable */
 
+const errorPrefix = "Compound [request] | ";
+
 let _request: any;
 let http: any;
 let https: any;
@@ -43,22 +46,31 @@ function _nodeJsRequest(options: any) {
 
 		req.on("timeout", () => {
 			req.abort();
-			return reject({
+			const response = {
 				status: 408,
 				statusText: "Client HTTP request timeout limit reached.",
-			});
+			};
+			return reject(
+				new RpcError(
+					errorPrefix + response.statusText,
+					response,
+					options.method || "GET",
+					[url]
+				)
+			);
 		});
 
 		req.on("error", (err: any) => {
 			if (req.aborted) return;
 
-			if (err !== null && err.toString() === "[object Object]") {
-				console.error(JSON.stringify(err));
-			} else {
-				console.error(err);
-			}
-
-			return reject();
+			return reject(
+				new RpcError(
+					errorPrefix + "HTTP request failed. See {error}.",
+					err,
+					options.method || "GET",
+					[url]
+				)
+			);
 		});
 
 		if (options.body) {
@@ -79,7 +91,7 @@ function _webBrowserRequest(options: any) {
 		url += typeof options.path === "string" ? options.path : "";
 
 		if (typeof url !== "string") {
-			return reject("HTTP Request: Invalid URL.");
+			return reject(new ValidationError(errorPrefix + "Invalid URL."));
 		}
 
 		// Use 'https' if the protocol is not specified in 'options.hostname'
@@ -118,10 +130,18 @@ function _webBrowserRequest(options: any) {
 					body,
 				});
 			} else {
-				return reject({
+				const response = {
 					status: xhr.status,
 					statusText: xhr.statusText,
-				});
+				};
+				return reject(
+					new RpcError(
+						errorPrefix + "HTTP request failed with status " + xhr.status + ".",
+						response,
+						method,
+						[url]
+					)
+				);
 			}
 		};
 
@@ -151,7 +171,9 @@ try {
  * @hidden
  *
  * @returns {Promise<object>} Returns a promise and eventually an HTTP response
- *     (JavaScript object).
+ *     (JavaScript object), or rejects with an `RpcError` if the request failed
+ *     or timed out, with the response or the network error as the `cause`,
+ *     or a `ValidationError` if the URL is not valid.
  */
 export function request(options: any): Promise<any> {
 	return _request.apply(null, [options]);
@@ -185,6 +207,7 @@ export function getAddress(contract: string, network = "rsk_mainnet"): string {
  * @param {string} contract The name of the contract.
  *
  * @returns {Array} Returns the ABI of the contract as a JavaScript array.
+ *     Throws a `ValidationError` if there is no ABI for the contract.
  *
  * @example
  * ```
@@ -192,6 +215,13 @@ export function getAddress(contract: string, network = "rsk_mainnet"): string {
  * ```
  */
 export function getAbi(contract: string): AbiType[] {
+	if (!abi[contract]) {
+		throw new ValidationError(
+			"Compound [getAbi] | Argument `contract` must be a contract with a " +
+				"known ABI."
+		);
+	}
+
 	return abi[contract];
 }
 
@@ -220,3 +250,39 @@ export function getNetNameWithChainId(chainId: number): string {
 	};
 	return networks[chainId];
 }
+
+/**
+ * Formats rows as a CSV document, with a header row of the column names.
+ *     Text cells starting with `=`, `+`, `-`, `@`, a tab or a carriage return
+ *     are prefixed with a `'`, so spreadsheets do not run them as formulas.
+ *
+ * @param {object[]} rows The rows of the document, objects with a value for
+ *     each column. `null` and missing values are empty cells.
+ * @param {string[]} columns The names of the columns, in order.
+ *
+ * @returns {string} Returns the CSV document.
+ *
+ * @example
+ * ```
+ * const csv = Compound.util.toCsv([{ asset: 'DOC', amount: 5 }], [ 'asset', 'amount' ]);
+ * console.log(csv); // "asset,amount\nDOC,5\n"
+ * ```
+ */
+export function toCsv(
+	rows: Record<string, string | number | null>[],
+	columns: string[]
+): string {
+	const cell = (value: string | number | null | undefined) => {
+		let text = value === null || value === undefined ? "" : value.toString();
+		if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) {
+			text = "'" + text;
+		}
+		return /[",\r\n]/.test(text) ? '"' + text.replace(/"/g, '""') + '"' : text;
+	};
+
+	const lines = rows.map((row) =>
+		columns.map((column) => cell(row[column])).join(",")
+	);
+
+	return [columns.join(",")].concat(lines).join("\n") + "\n";
+}
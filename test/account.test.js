@@ -0,0 +1,139 @@
+const assert = require('assert');
+const Compound = require('../src/index.ts');
+const providerUrl = require('./config.js').httpProviderUrl;
+
+module.exports = function suite([ publicKeys, privateKeys ]) {
+
+  const acc1 = { address: publicKeys[0], privateKey: privateKeys[0] };
+
+  it('runs account.getAccountPositions', async function () {
+    const compound = new Compound(providerUrl, {
+      privateKey: acc1.privateKey
+    });
+
+    const supplyEthTrx = await compound.supply(Compound.ETH, 2);
+    await supplyEthTrx.wait(1);
+
+    const enterEthMarket = await compound.enterMarkets(Compound.ETH);
+    await enterEthMarket.wait(1);
+
+    const result = await compound.getAccountPositions(acc1.address);
+    const cEth = result.find(p => p.cToken === 'cETH');
+    const cUsdc = result.find(p => p.cToken === 'cUSDC');
+
+    assert.equal(cEth.deposits > 1.99, true);
+    assert.equal(cEth.cTokenBalance > 0, true);
+    assert.equal(cEth.borrows, 0);
+    assert.equal(cEth.isCollateral, true);
+    assert.equal(cUsdc.deposits, 0);
+    assert.equal(cUsdc.isCollateral, false);
+  });
+
+  it('runs account.getAccountPositions fresh account', async function () {
+    const compound = new Compound(providerUrl);
+
+    const result = await compound.getAccountPositions(publicKeys[5]);
+
+    assert.equal(result.length > 0, true);
+    assert.equal(result.every(p => p.deposits === 0 && p.borrows === 0), true);
+  });
+
+  it('fails account.getAccountPositions invalid address', async function () {
+    const compound = new Compound(providerUrl);
+
+    try {
+      await compound.getAccountPositions('0xbad');
+      assert.fail('no error thrown');
+    } catch (e) {
+      assert.equal(e instanceof Compound.errors.ValidationError, true);
+      assert.equal(e.code, 'INVALID_ARGUMENT');
+    }
+  });
+
+  it('runs account.getMaxBorrow', async function () {
+    const compound = new Compound(providerUrl, {
+      privateKey: acc1.privateKey
+    });
+
+    const supplyEthTrx = await compound.supply(Compound.ETH, 2);
+    await supplyEthTrx.wait(1);
+
+    const enterEthMarket = await compound.enterMarkets(Compound.ETH);
+    await enterEthMarket.wait(1);
+
+    const max = await compound.getMaxBorrow(Compound.USDC, acc1.address);
+    const liquidity = await compound.getHypotheticalAccountLiquidity(
+      acc1.address, Compound.USDC, 0, max * 0.99
+    );
+    const overMax = await compound.getHypotheticalAccountLiquidity(
+      acc1.address, Compound.USDC, 0, max * 1.01
+    );
+
+    assert.equal(max > 0, true);
+    assert.equal(liquidity.shortfall, 0);
+    assert.equal(overMax.shortfall > 0, true);
+  });
+
+  it('runs account.getMaxBorrow mantissa and borrows it', async function () {
+    const compound = new Compound(providerUrl, {
+      privateKey: privateKeys[10]
+    });
+
+    const supplyEthTrx = await compound.supply(Compound.ETH, 2);
+    await supplyEthTrx.wait(1);
+
+    const enterEthMarket = await compound.enterMarkets(Compound.ETH);
+    await enterEthMarket.wait(1);
+
+    const max = await compound.getMaxBorrow(Compound.USDC, publicKeys[10], {
+      mantissa: true
+    });
+
+    const borrowTrx = await compound.borrow(Compound.USDC, max, {
+      mantissa: true
+    });
+    const receipt = await borrowTrx.wait(1);
+
+    assert.equal(typeof max, 'string');
+    assert.equal(receipt.status, 1);
+  });
+
+  it('runs account.getMaxRedeem', async function () {
+    const compound = new Compound(providerUrl, {
+      privateKey: acc1.privateKey
+    });
+
+    const supplyEthTrx = await compound.supply(Compound.ETH, 2);
+    await supplyEthTrx.wait(1);
+
+    const positions = await compound.getAccountPositions(acc1.address);
+    const cEth = positions.find(p => p.cToken === 'cETH');
+    const max = await compound.getMaxRedeem(Compound.ETH, acc1.address);
+
+    assert.equal(max > 0, true);
+    assert.equal(max <= cEth.deposits, true);
+  });
+
+  it('runs account.getMaxBorrow and getMaxRedeem fresh account', async function () {
+    const compound = new Compound(providerUrl);
+
+    const maxBorrow = await compound.getMaxBorrow(Compound.USDC, publicKeys[5]);
+    const maxRedeem = await compound.getMaxRedeem(Compound.ETH, publicKeys[5]);
+
+    assert.equal(maxBorrow, 0);
+    assert.equal(maxRedeem, 0);
+  });
+
+  it('fails account.getMaxBorrow invalid address', async function () {
+    const compound = new Compound(providerUrl);
+
+    try {
+      await compound.getMaxBorrow(Compound.USDC, '0xbad');
+      assert.fail('no error thrown');
+    } catch (e) {
+      assert.equal(e instanceof Compound.errors.ValidationError, true);
+      assert.equal(e.code, 'INVALID_ARGUMENT');
+    }
+  });
+
+}
@@ -0,0 +1,81 @@
+const assert = require('assert');
+const Compound = require('../src/index.ts');
+const providerUrl = require('./config.js').httpProviderUrl;
+
+module.exports = function suite([ publicKeys, privateKeys ]) {
+
+  const acc1 = { address: publicKeys[0], privateKey: privateKeys[0] };
+
+  it('runs allowance.approve and allowance.getAllowances', async function () {
+    const compound = new Compound(providerUrl, {
+      privateKey: acc1.privateKey
+    });
+
+    const trx = await compound.approve(Compound.USDC, 10);
+    await trx.wait(1);
+
+    const allowances = await compound.getAllowances(acc1.address);
+    const usdc = allowances.find(a => a.asset === Compound.USDC);
+
+    assert.equal(allowances.some(a => a.asset === Compound.ETH), false);
+    assert.equal(usdc.cToken, Compound.cUSDC);
+    assert.equal(usdc.allowance, 10);
+    assert.equal(usdc.unlimited, false);
+  });
+
+  it('runs allowance.approve unlimited', async function () {
+    const compound = new Compound(providerUrl, {
+      privateKey: acc1.privateKey
+    });
+
+    const trx = await compound.approve(Compound.cUSDC, 'unlimited');
+    await trx.wait(1);
+
+    const allowances = await compound.getAllowances(acc1.address);
+    const usdc = allowances.find(a => a.asset === Compound.USDC);
+
+    assert.equal(usdc.unlimited, true);
+  });
+
+  it('runs allowance.revokeApproval', async function () {
+    const compound = new Compound(providerUrl, {
+      privateKey: acc1.privateKey
+    });
+
+    const trx = await compound.revokeApproval(Compound.USDC);
+    await trx.wait(1);
+
+    const allowances = await compound.getAllowances(acc1.address);
+    const usdc = allowances.find(a => a.asset === Compound.USDC);
+
+    assert.equal(usdc.allowance, 0);
+    assert.equal(usdc.unlimited, false);
+  });
+
+  it('fails allowance.approve native asset', async function () {
+    const compound = new Compound(providerUrl, {
+      privateKey: acc1.privateKey
+    });
+
+    try {
+      await compound.approve(Compound.ETH, 1);
+      assert.fail('no error thrown');
+    } catch (e) {
+      assert.equal(e instanceof Compound.errors.ValidationError, true);
+      assert.equal(e.code, 'INVALID_ARGUMENT');
+    }
+  });
+
+  it('fails allowance.getAllowances invalid account', async function () {
+    const compound = new Compound(providerUrl);
+
+    try {
+      await compound.getAllowances('bad');
+      assert.fail('no error thrown');
+    } catch (e) {
+      assert.equal(e instanceof Compound.errors.ValidationError, true);
+      assert.equal(e.code, 'INVALID_ARGUMENT');
+    }
+  });
+
+}
@@ -88,6 +88,69 @@ module.exports = function suite([ publicKeys, privateKeys ]) {
     assert.equal(events.includes('Failure'), true);
   });
 
+  it('runs cToken.supply as collateral', async function () {
+    const compound = new Compound(providerUrl, {
+      privateKey: privateKeys[6]
+    });
+
+    const steps = [];
+    let enterTx;
+    const trx = await compound.supply(Compound.ETH, 1, {
+      asCollateral: true,
+      onStep: (step, stepTrx) => {
+        steps.push(step);
+        if (step === 'enterMarketsSent') {
+          enterTx = stepTrx;
+        }
+      }
+    });
+    await trx.wait(1);
+    await enterTx.wait(1);
+
+    const isCollateral = await compound.isCollateralEnabled(
+      publicKeys[6], Compound.ETH
+    );
+
+    assert.deepEqual(steps, [ 'transactionSent', 'enterMarketsSent' ]);
+    assert.equal(enterTx.value.toString(), '0');
+    assert.equal(isCollateral, true);
+  });
+
+  it('fails cToken.supply as collateral enterMarkets rejected', async function () {
+    const compound = new Compound(providerUrl, {
+      privateKey: privateKeys[11]
+    });
+
+    // The wallet sends the `mint` and rejects the `enterMarkets` after it
+    const signer = compound._provider;
+    const sendTransaction = signer.sendTransaction.bind(signer);
+    let sent = 0;
+    signer.sendTransaction = (transaction) => {
+      sent++;
+      if (sent > 1) {
+        return Promise.reject({ code: 4001, message: 'User rejected' });
+      }
+      return sendTransaction(transaction);
+    };
+
+    try {
+      await compound.supply(Compound.ETH, 1, { asCollateral: true });
+      assert.fail('no error thrown');
+    } catch (e) {
+      assert.equal(e instanceof Compound.errors.EnterMarketsFailedError, true);
+      assert.equal(e.code, 'ENTER_MARKETS_FAILED');
+      assert.equal(e.cause instanceof Compound.errors.UserRejectedError, true);
+
+      const receipt = await e.mintTx.wait(1);
+      assert.equal(receipt.status, 1);
+    }
+
+    const isCollateral = await compound.isCollateralEnabled(
+      publicKeys[11], Compound.ETH
+    );
+    assert.equal(isCollateral, false);
+  });
+
   it('fails cToken.supply asset type', async function () {
     const compound = new Compound(providerUrl, {
       privateKey: acc1.privateKey
@@ -98,6 +161,8 @@ module.exports = function suite([ publicKeys, privateKeys ]) {
       const trx = await compound.supply(null, 10); // bad asset type
     } catch (e) {
       assert.equal(e.message, errorMessage);
+      assert.equal(e instanceof Compound.errors.ValidationError, true);
+      assert.equal(e.code, 'INVALID_ARGUMENT');
     }
   });
 
@@ -208,6 +273,36 @@ module.exports = function suite([ publicKeys, privateKeys ]) {
     assert.equal(events.includes('Transfer'), true);
   });
 
+  it('fails cToken.redeem insufficient collateral', async function () {
+    const compound = new Compound(providerUrl, {
+      privateKey: acc1.privateKey
+    });
+
+    const supplyEthTrx = await compound.supply(Compound.ETH, 2);
+    await supplyEthTrx.wait(1);
+
+    const enterEthMarket = await compound.enterMarkets(Compound.ETH);
+    await enterEthMarket.wait(1);
+
+    const borrowUsdcTrx = await compound.borrow(Compound.USDC, 5, { gasLimit: 600000 });
+    await borrowUsdcTrx.wait(1);
+
+    const cEthBalance = await Compound.eth.read(
+      Compound.util.getAddress(Compound.cETH, 'mainnet'),
+      'function balanceOf(address) returns (uint)',
+      [ acc1.address ],
+      { provider: providerUrl }
+    );
+
+    try {
+      await compound.redeem(Compound.cETH, cEthBalance, { mantissa: true });
+      assert.fail('no error thrown');
+    } catch (e) {
+      assert.equal(e instanceof Compound.errors.InsufficientCollateralError, true);
+      assert.equal(e.code, 'INSUFFICIENT_COLLATERAL');
+    }
+  });
+
   it('fails cToken.redeem bad asset', async function () {
     const compound = new Compound(providerUrl, {
       privateKey: acc1.privateKey
@@ -331,6 +426,106 @@ module.exports = function suite([ publicKeys, privateKeys ]) {
     }
   });
 
+  it('fails cToken.borrow insufficient collateral', async function () {
+    const compound = new Compound(providerUrl, {
+      privateKey: acc1.privateKey
+    });
+
+    const supplyEthTrx = await compound.supply(Compound.ETH, 1);
+    await supplyEthTrx.wait(1);
+
+    const enterEthMarket = await compound.enterMarkets(Compound.ETH);
+    await enterEthMarket.wait(1);
+
+    try {
+      await compound.borrow(Compound.USDC, 100000000);
+      assert.fail('no error thrown');
+    } catch (e) {
+      assert.equal(e instanceof Compound.errors.InsufficientCollateralError, true);
+      assert.equal(e.code, 'INSUFFICIENT_COLLATERAL');
+    }
+  });
+
+  it('fails cToken.borrow paused market', async function () {
+    const compound = new Compound(providerUrl, {
+      privateKey: acc1.privateKey
+    });
+
+    const supplyEthTrx = await compound.supply(Compound.ETH, 1);
+    await supplyEthTrx.wait(1);
+
+    // Pause USDC borrows as the admin of the Comptroller
+    const provider = new ethers.providers.JsonRpcProvider(providerUrl);
+    const comptrollerAddress = Compound.util.getAddress(Compound.Comptroller, 'mainnet');
+    const cUsdcAddress = Compound.util.getAddress(Compound.cUSDC, 'mainnet');
+    const admin = await Compound.eth.read(
+      comptrollerAddress,
+      'function admin() returns (address)',
+      [],
+      { provider: providerUrl }
+    );
+    await provider.send('hardhat_impersonateAccount', [ admin ]);
+    await provider.send('hardhat_setBalance', [ admin, '0xde0b6b3a7640000' ]);
+    const pauseTrx = await Compound.eth.trx(
+      comptrollerAddress,
+      'function _setBorrowPaused(address, bool) returns (bool)',
+      [ cUsdcAddress, true ],
+      { provider: provider.getSigner(admin) }
+    );
+    await pauseTrx.wait(1);
+
+    try {
+      await compound.borrow(Compound.USDC, 5);
+      assert.fail('no error thrown');
+    } catch (e) {
+      assert.equal(e instanceof Compound.errors.PausedMarketError, true);
+      assert.equal(e.market, Compound.cUSDC);
+      assert.equal(e.action, 'borrow');
+      assert.equal(e.code, 'MARKET_PAUSED');
+    }
+  });
+
+  it('fails cToken.liquidateBorrow borrower not in liquidation zone', async function () {
+    const borrower = new Compound(providerUrl, {
+      privateKey: acc1.privateKey
+    });
+
+    const supplyEthTrx = await borrower.supply(Compound.ETH, 2);
+    await supplyEthTrx.wait(1);
+
+    const enterEthMarket = await borrower.enterMarkets(Compound.ETH);
+    await enterEthMarket.wait(1);
+
+    const borrowTrx = await borrower.borrow(Compound.USDC, 5, { gasLimit: 600000 });
+    await borrowTrx.wait(1);
+
+    const compound = new Compound(providerUrl, {
+      privateKey: privateKeys[6]
+    });
+
+    try {
+      await compound.liquidateBorrow(acc1.address, Compound.USDC, 1, Compound.ETH);
+      assert.fail('no error thrown');
+    } catch (e) {
+      assert.equal(e instanceof Compound.errors.ProtocolError, true);
+      assert.equal(e.code, 'INSUFFICIENT_SHORTFALL');
+    }
+  });
+
+  it('fails cToken.liquidateBorrow own borrow', async function () {
+    const compound = new Compound(providerUrl, {
+      privateKey: acc1.privateKey
+    });
+
+    try {
+      await compound.liquidateBorrow(acc1.address, Compound.USDC, 1, Compound.ETH);
+      assert.fail('no error thrown');
+    } catch (e) {
+      assert.equal(e instanceof Compound.errors.ValidationError, true);
+      assert.equal(e.code, 'INVALID_ARGUMENT');
+    }
+  });
+
   it('runs cToken.repayBorrow USDC', async function () {
     const compound = new Compound(providerUrl, {
       privateKey: acc1.privateKey
@@ -359,6 +554,35 @@ module.exports = function suite([ publicKeys, privateKeys ]) {
     assert.equal(events.includes('Transfer'), true);
   });
 
+  it('runs cToken.repayBorrow USDC onStep', async function () {
+    const compound = new Compound(providerUrl, {
+      privateKey: acc1.privateKey
+    });
+
+    const supplyEthTrx = await compound.supply(Compound.ETH, 2);
+    await supplyEthTrx.wait(1);
+
+    const enterEthMarket = await compound.enterMarkets(Compound.ETH);
+    await enterEthMarket.wait(1);
+
+    const borrowTrx = await compound.borrow(Compound.USDC, 5, { gasLimit: 600000 });
+    await borrowTrx.wait(1);
+
+    const revokeTrx = await compound.revokeApproval(Compound.USDC);
+    await revokeTrx.wait(1);
+
+    const steps = [];
+    const trx = await compound.repayBorrow(Compound.USDC, 5, null, {
+      gasLimit: 600000,
+      onStep: (step) => steps.push(step),
+    });
+    await trx.wait(1);
+
+    assert.deepEqual(steps, [
+      'approvalRequested', 'approvalSent', 'approvalMined', 'transactionSent'
+    ]);
+  });
+
   it('runs cToken.repayBorrow ETH', async function () {
     const compound = new Compound(providerUrl, {
       privateKey: acc1.privateKey
@@ -524,4 +748,80 @@ module.exports = function suite([ publicKeys, privateKeys ]) {
     }
   });
 
-}
\ No newline at end of file
+  it('runs cToken.transferKTokens', async function () {
+    const compound = new Compound(providerUrl, {
+      privateKey: privateKeys[7]
+    });
+
+    const supplyEthTrx = await compound.supply(Compound.ETH, 1);
+    await supplyEthTrx.wait(1);
+
+    const trx = await compound.transferKTokens(Compound.cETH, publicKeys[8], 1);
+    const receipt = await trx.wait(1);
+
+    const events = receipt.events.map(e => e.event);
+
+    assert.equal(events.includes('Transfer'), true);
+  });
+
+  it('fails cToken.transferKTokens more than supplied', async function () {
+    const compound = new Compound(providerUrl, {
+      privateKey: privateKeys[7]
+    });
+
+    try {
+      await compound.transferKTokens(Compound.cETH, publicKeys[8], 1000000);
+      assert.fail('no error thrown');
+    } catch (e) {
+      assert.equal(e instanceof Compound.errors.ProtocolError, true);
+      assert.equal(e.code, 'INSUFFICIENT_BALANCE');
+    }
+  });
+
+  it('fails cToken.transferKTokens insufficient collateral', async function () {
+    const compound = new Compound(providerUrl, {
+      privateKey: acc1.privateKey
+    });
+
+    const supplyEthTrx = await compound.supply(Compound.ETH, 2);
+    await supplyEthTrx.wait(1);
+
+    const enterEthMarket = await compound.enterMarkets(Compound.ETH);
+    await enterEthMarket.wait(1);
+
+    const borrowTrx = await compound.borrow(Compound.USDC, 5, { gasLimit: 600000 });
+    await borrowTrx.wait(1);
+
+    const balance = await Compound.eth.read(
+      Compound.util.getAddress(Compound.cETH, 'mainnet'),
+      'function balanceOf(address) returns (uint)',
+      [ acc1.address ],
+      { provider: providerUrl }
+    );
+
+    try {
+      await compound.transferKTokens(Compound.cETH, acc2.address, balance, {
+        mantissa: true
+      });
+      assert.fail('no error thrown');
+    } catch (e) {
+      assert.equal(e.code, 'INSUFFICIENT_COLLATERAL');
+      assert.equal(e instanceof Compound.errors.InsufficientCollateralError, true);
+    }
+  });
+
+  it('fails cToken.transferKTokensFrom invalid from', async function () {
+    const compound = new Compound(providerUrl, {
+      privateKey: acc1.privateKey
+    });
+
+    try {
+      await compound.transferKTokensFrom(Compound.cETH, 'bad', acc2.address, 1);
+      assert.fail('no error thrown');
+    } catch (e) {
+      assert.equal(e instanceof Compound.errors.ValidationError, true);
+      assert.equal(e.code, 'INVALID_ARGUMENT');
+    }
+  });
+
+}
@@ -119,4 +119,193 @@ module.exports = function suite([ publicKeys, privateKeys ]) {
     }
   });
 
+  it('fails comptroller.exitMarket insufficient collateral', async function () {
+    const compound = new Compound(providerUrl, {
+      privateKey: acc1.privateKey
+    });
+
+    const supplyEthTrx = await compound.supply(Compound.ETH, 2);
+    await supplyEthTrx.wait(1);
+
+    const enterEthMarket = await compound.enterMarkets(Compound.ETH);
+    await enterEthMarket.wait(1);
+
+    const borrowTrx = await compound.borrow(Compound.USDC, 5, { gasLimit: 600000 });
+    await borrowTrx.wait(1);
+
+    try {
+      await compound.exitMarket(Compound.ETH);
+      assert.fail('no error thrown');
+    } catch (e) {
+      assert.equal(e instanceof Compound.errors.InsufficientCollateralError, true);
+      assert.equal(e.code, 'INSUFFICIENT_COLLATERAL');
+    }
+  });
+
+  it('runs comptroller.getHypotheticalAccountLiquidity', async function () {
+    const compound = new Compound(providerUrl);
+
+    const supplyEthTrx = await new Compound(providerUrl, {
+      privateKey: acc1.privateKey
+    }).supply(Compound.ETH, 2);
+    await supplyEthTrx.wait(1);
+
+    const current = await compound.getHypotheticalAccountLiquidity(
+      acc1.address, Compound.ETH
+    );
+    const hypothetical = await compound.getHypotheticalAccountLiquidity(
+      acc1.address, Compound.USDC, 0, 1000000000
+    );
+
+    assert.equal(current.error, 0);
+    assert.equal(hypothetical.error, 0);
+    assert.equal(hypothetical.liquidity, 0);
+    assert.equal(hypothetical.shortfall > current.shortfall, true);
+  });
+
+  it('runs comptroller.getHypotheticalAccountLiquidity market not entered', async function () {
+    const compound = new Compound(providerUrl, {
+      privateKey: privateKeys[9]
+    });
+
+    const supplyEthTrx = await compound.supply(Compound.ETH, 2);
+    await supplyEthTrx.wait(1);
+
+    const hypothetical = await compound.getHypotheticalAccountLiquidity(
+      publicKeys[9], Compound.ETH, 0, 1
+    );
+    const maxBorrow = await compound.getMaxBorrow(Compound.ETH, publicKeys[9]);
+
+    assert.equal(hypothetical.error, 0);
+    assert.equal(hypothetical.liquidity > 0, true);
+    assert.equal(hypothetical.shortfall, 0);
+    assert.equal(maxBorrow > 1, true);
+  });
+
+  it('runs comptroller.getCollateralMarkets', async function () {
+    const compound = new Compound(providerUrl, {
+      privateKey: acc1.privateKey
+    });
+
+    const enterMarketsTrx = await compound.enterMarkets(Compound.ETH);
+    await enterMarketsTrx.wait(1);
+
+    const markets = await compound.getCollateralMarkets(acc1.address);
+    const isEthCollateral = await compound.isCollateralEnabled(
+      acc1.address, Compound.ETH
+    );
+    const isUsdcCollateral = await compound.isCollateralEnabled(
+      publicKeys[5], Compound.USDC
+    );
+
+    assert.equal(markets.includes('cETH'), true);
+    assert.equal(isEthCollateral, true);
+    assert.equal(isUsdcCollateral, false);
+  });
+
+  it('fails comptroller.isCollateralEnabled invalid cToken', async function () {
+    const compound = new Compound(providerUrl);
+
+    try {
+      await compound.isCollateralEnabled(acc1.address, 'badctokenname');
+      assert.fail('no error thrown');
+    } catch (e) {
+      assert.equal(e instanceof Compound.errors.ValidationError, true);
+      assert.equal(e.code, 'INVALID_ARGUMENT');
+    }
+  });
+
+  it('runs comptroller.getMarketConfig', async function () {
+    const compound = new Compound(providerUrl);
+
+    const config = await compound.getMarketConfig(Compound.ETH);
+
+    assert.equal(config.cToken, Compound.cETH);
+    assert.equal(config.isListed, true);
+    assert.equal(Number(config.collateralFactorMantissa) > 0, true);
+    assert.equal(config.mintGuardianPaused, false);
+    assert.equal(config.borrowGuardianPaused, false);
+    assert.equal(Number(config.closeFactorMantissa) > 0, true);
+    assert.equal(Number(config.liquidationIncentiveMantissa) > 1e18, true);
+    assert.equal(ethers.utils.isAddress(config.oracle), true);
+  });
+
+  it('fails comptroller.getMarketConfig invalid cToken', async function () {
+    const compound = new Compound(providerUrl);
+
+    try {
+      await compound.getMarketConfig('badctokenname');
+      assert.fail('no error thrown');
+    } catch (e) {
+      assert.equal(e instanceof Compound.errors.ValidationError, true);
+      assert.equal(e.code, 'INVALID_ARGUMENT');
+    }
+  });
+
+  it('runs comptroller.quoteLiquidation', async function () {
+    const compound = new Compound(providerUrl, {
+      privateKey: acc1.privateKey
+    });
+
+    const supplyEthTrx = await compound.supply(Compound.ETH, 2);
+    await supplyEthTrx.wait(1);
+
+    const enterEthMarket = await compound.enterMarkets(Compound.ETH);
+    await enterEthMarket.wait(1);
+
+    const borrowTrx = await compound.borrow(Compound.USDC, 5, { gasLimit: 600000 });
+    await borrowTrx.wait(1);
+
+    const quote = await compound.quoteLiquidation(
+      acc1.address, Compound.USDC, 1, Compound.ETH
+    );
+
+    assert.equal(quote.repayAsset, 'cUSDC');
+    assert.equal(quote.collateralAsset, 'cETH');
+    assert.equal(quote.repayAmount, 1);
+    assert.equal(quote.maxRepayAmount > 0, true);
+    assert.equal(quote.seizeTokens > 0, true);
+    assert.equal(quote.seizeAmount > 0, true);
+    assert.equal(quote.liquidationIncentive > 1, true);
+    assert.equal(quote.shortfall, 0);
+  });
+
+  it('fails comptroller.quoteLiquidation invalid borrower', async function () {
+    const compound = new Compound(providerUrl);
+
+    try {
+      await compound.quoteLiquidation('0x123', Compound.USDC, 1, Compound.ETH);
+      assert.fail('no error thrown');
+    } catch (e) {
+      assert.equal(e instanceof Compound.errors.ValidationError, true);
+      assert.equal(e.code, 'INVALID_ARGUMENT');
+    }
+  });
+
+  it('fails comptroller.getHypotheticalAccountLiquidity invalid account', async function () {
+    const compound = new Compound(providerUrl);
+
+    try {
+      await compound.getHypotheticalAccountLiquidity('0x123', Compound.ETH);
+      assert.fail('no error thrown');
+    } catch (e) {
+      assert.equal(e instanceof Compound.errors.ValidationError, true);
+      assert.equal(e.code, 'INVALID_ARGUMENT');
+    }
+  });
+
+  it('fails comptroller.getHypotheticalAccountLiquidity bad amount', async function () {
+    const compound = new Compound(providerUrl);
+
+    try {
+      await compound.getHypotheticalAccountLiquidity(
+        acc1.address, Compound.ETH, 0, null
+      );
+      assert.fail('no error thrown');
+    } catch (e) {
+      assert.equal(e instanceof Compound.errors.ValidationError, true);
+      assert.equal(e.code, 'INVALID_ARGUMENT');
+    }
+  });
+
 }
@@ -5,4 +5,5 @@ module.exports = {
   hostname,
   port,
   httpProviderUrl: `http://${hostname}:${port}`,
+  wsProviderUrl: `ws://${hostname}:${port}`,
 };
@@ -0,0 +1,65 @@
+const assert = require('assert');
+const errors = require('../src/errors.ts');
+
+module.exports = function suite() {
+
+  it('runs errors.decodeFailure comptroller code', async function () {
+    const result = errors.decodeFailure('comptroller', 4);
+
+    assert.equal(result.source, 'comptroller');
+    assert.equal(result.errorName, 'INSUFFICIENT_LIQUIDITY');
+    assert.equal(result.info, null);
+    assert.equal(result.infoName, null);
+  });
+
+  it('runs errors.decodeFailure cToken failure', async function () {
+    const result = errors.decodeFailure('cToken', 9, 9, 0);
+
+    assert.equal(result.errorName, 'MATH_ERROR');
+    assert.equal(result.infoName, 'BORROW_CASH_NOT_AVAILABLE');
+  });
+
+  it('runs errors.decodeFailure cToken comptroller rejection', async function () {
+    const result = errors.decodeFailure('cToken', 3, 14, 4);
+
+    assert.equal(result.errorName, 'COMPTROLLER_REJECTION');
+    assert.equal(result.infoName, 'BORROW_COMPTROLLER_REJECTION');
+    assert.equal(
+      result.description,
+      'The action would violate the comptroller policy: the account does not have sufficient liquidity to perform this action.'
+    );
+    assert.equal(
+      result.hint,
+      'Supply more collateral or repay part of the borrows first.'
+    );
+  });
+
+  it('runs errors.decodeFailure unknown code', async function () {
+    const result = errors.decodeFailure('cToken', 99, 200);
+
+    assert.equal(result.errorName, 'UNKNOWN');
+    assert.equal(result.infoName, 'UNKNOWN');
+    assert.equal(result.description, 'Unknown error code 99.');
+  });
+
+  it('runs errors.TropykusError instanceof', async function () {
+    const error = new errors.PausedMarketError('paused', 'cDOC', 'mint');
+
+    assert.equal(error instanceof errors.PausedMarketError, true);
+    assert.equal(error instanceof errors.TropykusError, true);
+    assert.equal(error instanceof Error, true);
+    assert.equal(error.name, 'PausedMarketError');
+  });
+
+  it('runs errors.RpcError cause', async function () {
+    const cause = new Error('execution reverted');
+    const error = new errors.RevertedError('reverted', cause, 'borrow', [ 1 ]);
+
+    assert.equal(error instanceof errors.RpcError, true);
+    assert.equal(error.code, 'REVERTED');
+    assert.equal(error.cause, cause);
+    assert.equal(error.error, cause);
+    assert.deepEqual(error.parameters, [ 1 ]);
+  });
+
+}
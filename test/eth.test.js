@@ -1,6 +1,7 @@
 const assert = require('assert');
 const ethers = require('ethers');
 const eth = require('../src/eth.ts');
+const errors = require('../src/errors.ts');
 const providerUrl = require('./config.js').httpProviderUrl;
 
 // Mocked browser `window.ethereum` as unlocked account '0xa0df35...'
@@ -34,6 +35,103 @@ module.exports = function suite([ publicKeys, privateKeys ]) {
 
   });
 
+  it('runs eth.read batched', async function () {
+    const cUsdcMainnetAddress = '0x39aa39c021dfbae8fac545936693ac917d5e7563';
+    const provider = new ethers.providers.JsonRpcProvider(providerUrl);
+    eth.setBatching(provider);
+
+    const options = { provider };
+    const [ decimals, symbol ] = await Promise.all([
+      eth.read(cUsdcMainnetAddress, 'function decimals() view returns (uint8)', [], options),
+      eth.read(cUsdcMainnetAddress, 'function symbol() view returns (string)', [], options),
+    ]);
+
+    eth.setBatching(provider, false);
+
+    assert.equal(decimals, 8);
+    assert.equal(symbol, 'cUSDC');
+  });
+
+  it('runs eth.read batched with a failing call', async function () {
+    const cUsdcMainnetAddress = '0x39aa39c021dfbae8fac545936693ac917d5e7563';
+    const options = { provider: providerUrl, batch: true };
+
+    const [ decimals, failed ] = await Promise.allSettled([
+      eth.read(cUsdcMainnetAddress, 'function decimals() view returns (uint8)', [], options),
+      eth.read(cUsdcMainnetAddress, 'function notAMethod() view returns (uint8)', [], options),
+    ]);
+
+    assert.equal(decimals.value, 8);
+    assert.equal(failed.status, 'rejected');
+  });
+
+  it('runs eth.getEvents', async function () {
+    const cUsdcMainnetAddress = '0x39aa39c021dfbae8fac545936693ac917d5e7563';
+    const ethersProvider = new ethers.providers.JsonRpcProvider(providerUrl);
+    const toBlock = await ethersProvider.getBlockNumber();
+
+    const events = await eth.getEvents(cUsdcMainnetAddress, 'Transfer', {
+      provider: providerUrl,
+      abi: [ 'event Transfer(address indexed from, address indexed to, uint amount)' ],
+      fromBlock: toBlock - 99,
+      toBlock,
+      blockRange: 25,
+    });
+
+    assert.equal(Array.isArray(events), true);
+    assert.equal(events.every(e => e.event === 'Transfer'), true);
+    assert.equal(events.every(e => e.blockNumber >= toBlock - 99), true);
+  });
+
+  it('runs eth.getEvents block tags', async function () {
+    const cUsdcMainnetAddress = '0x39aa39c021dfbae8fac545936693ac917d5e7563';
+    const ethersProvider = new ethers.providers.JsonRpcProvider(providerUrl);
+    const latestBlock = await ethersProvider.getBlockNumber();
+
+    const events = await eth.getEvents(cUsdcMainnetAddress, 'Transfer', {
+      provider: providerUrl,
+      abi: [ 'event Transfer(address indexed from, address indexed to, uint amount)' ],
+      fromBlock: '0x' + (latestBlock - 99).toString(16),
+      toBlock: 'latest',
+    });
+
+    assert.equal(Array.isArray(events), true);
+    assert.equal(events.every(e => e.blockNumber >= latestBlock - 99), true);
+  });
+
+  it('fails eth.getEvents no fromBlock', async function () {
+    const cUsdcMainnetAddress = '0x39aa39c021dfbae8fac545936693ac917d5e7563';
+
+    try {
+      await eth.getEvents(cUsdcMainnetAddress, 'Transfer', {
+        provider: providerUrl,
+        abi: [ 'event Transfer(address indexed from, address indexed to, uint amount)' ],
+      });
+      assert.fail('no error thrown');
+    } catch (e) {
+      assert.equal(e instanceof errors.ValidationError, true);
+      assert.equal(e.code, 'INVALID_ARGUMENT');
+    }
+  });
+
+  it('fails eth.getEvents unknown event', async function () {
+    const cUsdcMainnetAddress = '0x39aa39c021dfbae8fac545936693ac917d5e7563';
+
+    try {
+      await eth.getEvents(cUsdcMainnetAddress, 'Unknown', {
+        provider: providerUrl,
+        abi: [ 'event Transfer(address indexed from, address indexed to, uint amount)' ],
+        fromBlock: 0,
+        toBlock: 0,
+      });
+      assert.fail('no error thrown');
+    } catch (e) {
+      assert.equal(e instanceof errors.RpcError, true);
+      assert.equal(e.code, 'RPC_ERROR');
+      assert.equal(e.method, 'Unknown');
+    }
+  });
+
   it('runs eth.trx', async function () {
     // Mint some cETH by supplying ETH to the Compound Protocol
     const cEthMainnetAddress = '0x4ddc2d193948926d02f9b1fe9e1daa0718270ed5';
@@ -64,6 +162,75 @@ module.exports = function suite([ publicKeys, privateKeys ]) {
 
   });
 
+  it('runs eth.trx speedUp', async function () {
+    const cEthMainnetAddress = '0x4ddc2d193948926d02f9b1fe9e1daa0718270ed5';
+    const node = new ethers.providers.JsonRpcProvider(providerUrl);
+
+    await node.send('evm_setAutomine', [ false ]);
+
+    try {
+      const trx = await eth.trx(
+        cEthMainnetAddress,
+        'function mint() payable',
+        [],
+        {
+          value: ethers.utils.parseEther('1.0'),
+          gasPrice: 200e9,
+          gasLimit: 300000,
+          provider: providerUrl,
+          privateKey: acc1.privateKey
+        }
+      );
+
+      const status = await trx.getStatus();
+      const fastTrx = await trx.speedUp(300e9);
+
+      const replaced = trx.waitForConfirmations(1, 100).then(
+        () => assert.fail('no error thrown'),
+        (e) => e
+      );
+      const mined = fastTrx.waitForConfirmations(1, 100);
+
+      await node.send('evm_mine', []);
+
+      const receipt = await mined;
+      const error = await replaced;
+
+      assert.equal(status, 'pending');
+      assert.equal(fastTrx.nonce, trx.nonce);
+      assert.equal(receipt.status, 1);
+      assert.equal(error.code, 'TRANSACTION_REPLACED');
+      assert.equal(error.reason, 'repriced');
+    } finally {
+      await node.send('evm_setAutomine', [ true ]);
+    }
+  });
+
+  it('fails eth.trx speedUp gas price', async function () {
+    const cEthMainnetAddress = '0x4ddc2d193948926d02f9b1fe9e1daa0718270ed5';
+
+    const trx = await eth.trx(
+      cEthMainnetAddress,
+      'function mint() payable',
+      [],
+      {
+        value: ethers.utils.parseEther('1.0'),
+        gasPrice: 200e9,
+        provider: providerUrl,
+        privateKey: acc1.privateKey
+      }
+    );
+    await trx.wait(1);
+
+    try {
+      await trx.speedUp(100e9);
+      assert.fail('no error thrown');
+    } catch (e) {
+      assert.equal(e instanceof errors.ValidationError, true);
+      assert.equal(e.code, 'INVALID_ARGUMENT');
+    }
+  });
+
   it('runs eth._createProvider with URL string', async function () {
     const provider = await eth._createProvider({ provider: providerUrl });
 
@@ -0,0 +1,203 @@
+const assert = require('assert');
+const ethers = require('ethers');
+const Compound = require('../src/index.ts');
+const { httpProviderUrl: providerUrl, wsProviderUrl } = require('./config.js');
+
+module.exports = function suite([ publicKeys, privateKeys ]) {
+
+  const acc1 = { address: publicKeys[0], privateKey: privateKeys[0] };
+
+  it('runs events.on', async function () {
+    const compound = new Compound(providerUrl, {
+      privateKey: acc1.privateKey
+    });
+
+    const received = [];
+    const unsubscribe = await compound.on(
+      'Mint',
+      { markets: [ Compound.ETH ], pollingInterval: 100 },
+      (event) => received.push(event)
+    );
+
+    const supplyEthTrx = await compound.supply(Compound.ETH, 2);
+    await supplyEthTrx.wait(1);
+
+    await new Promise((resolve) => setTimeout(resolve, 500));
+    unsubscribe();
+
+    assert.equal(received.length, 1);
+    assert.equal(received[0].event, 'Mint');
+    assert.equal(received[0].market, Compound.cETH);
+    assert.equal(received[0].args.minter, acc1.address);
+    assert.equal(received[0].args.mintAmount, 2);
+    assert.equal(received[0].transactionHash, supplyEthTrx.hash);
+  });
+
+  it('runs events.on with an args filter', async function () {
+    const compound = new Compound(providerUrl, {
+      privateKey: acc1.privateKey
+    });
+
+    const received = [];
+    const unsubscribe = await compound.on(
+      'MarketEntered',
+      {
+        args: { account: publicKeys[1].toLowerCase() },
+        pollingInterval: 100,
+      },
+      (event) => received.push(event)
+    );
+
+    const enterEthMarket = await compound.enterMarkets(Compound.ETH);
+    await enterEthMarket.wait(1);
+
+    await new Promise((resolve) => setTimeout(resolve, 500));
+    unsubscribe();
+
+    assert.equal(received.length, 0);
+  });
+
+  it('runs events.on with a matching args filter', async function () {
+    const compound = new Compound(providerUrl, {
+      privateKey: acc1.privateKey
+    });
+
+    const received = [];
+    const unsubscribe = await compound.on(
+      'Mint',
+      {
+        markets: [ Compound.ETH ],
+        args: { minter: acc1.address.toLowerCase() },
+        pollingInterval: 100,
+      },
+      (event) => received.push(event)
+    );
+
+    const supplyEthTrx = await compound.supply(Compound.ETH, 1);
+    await supplyEthTrx.wait(1);
+
+    await new Promise((resolve) => setTimeout(resolve, 500));
+    unsubscribe();
+
+    assert.equal(received.length, 1);
+    assert.equal(received[0].args.minter, acc1.address);
+  });
+
+  it('runs events.on with a failing handler', async function () {
+    const compound = new Compound(providerUrl, {
+      privateKey: acc1.privateKey
+    });
+
+    const received = [];
+    const errors = [];
+    const unsubscribe = await compound.on(
+      'Mint',
+      {
+        markets: [ Compound.ETH ],
+        pollingInterval: 100,
+        onError: (error) => errors.push(error),
+      },
+      (event) => {
+        received.push(event);
+        if (received.length === 1) {
+          throw new Error('handler failed');
+        }
+      }
+    );
+
+    const firstTrx = await compound.supply(Compound.ETH, 1);
+    const secondTrx = await compound.supply(Compound.ETH, 1);
+    await Promise.all([ firstTrx.wait(1), secondTrx.wait(1) ]);
+
+    await new Promise((resolve) => setTimeout(resolve, 500));
+    unsubscribe();
+
+    assert.equal(received.length, 2);
+    assert.equal(errors.length, 1);
+    assert.equal(errors[0].message, 'handler failed');
+  });
+
+  it('runs events.on with a WebSocket provider', async function () {
+    const wsProvider = new ethers.providers.WebSocketProvider(wsProviderUrl);
+    const listener = new Compound(wsProvider);
+    const compound = new Compound(providerUrl, {
+      privateKey: acc1.privateKey
+    });
+
+    try {
+      const received = [];
+      const unsubscribe = await listener.on(
+        'Mint',
+        { markets: [ Compound.ETH ] },
+        (event) => received.push(event)
+      );
+
+      const supplyEthTrx = await compound.supply(Compound.ETH, 1);
+      await supplyEthTrx.wait(1);
+
+      await new Promise((resolve) => setTimeout(resolve, 500));
+      unsubscribe();
+
+      assert.equal(received.length, 1);
+      assert.equal(received[0].market, Compound.cETH);
+      assert.equal(received[0].transactionHash, supplyEthTrx.hash);
+      assert.equal(wsProvider.listenerCount(), 0);
+    } finally {
+      await wsProvider.destroy();
+    }
+  });
+
+  it('runs events.off', async function () {
+    const compound = new Compound(providerUrl);
+
+    const handler = () => {};
+    await compound.on('Borrow', { pollingInterval: 100 }, handler);
+    await compound.on('Borrow', { pollingInterval: 100 }, () => {});
+
+    compound.off('Borrow', handler);
+    assert.equal(compound._subscriptions.length, 1);
+
+    compound.off('Borrow');
+    assert.equal(compound._subscriptions.length, 0);
+  });
+
+  it('runs events.on unsubscribe of a shared handler', async function () {
+    const compound = new Compound(providerUrl);
+
+    const handler = () => {};
+    const unsubscribe = await compound.on('Borrow', { pollingInterval: 100 }, handler);
+    await compound.on('Borrow', { pollingInterval: 100 }, handler);
+
+    unsubscribe();
+    assert.equal(compound._subscriptions.length, 1);
+
+    compound.off('Borrow');
+  });
+
+  it('fails events.on invalid event', async function () {
+    const compound = new Compound(providerUrl);
+
+
+    try {
+      await compound.on('Transferred', () => {});
+      assert.fail('no error thrown');
+    } catch (e) {
+      assert.equal(e instanceof Compound.errors.ValidationError, true);
+      assert.equal(e.code, 'INVALID_ARGUMENT');
+    }
+  });
+
+  it('fails events.on missing handler', async function () {
+    const compound = new Compound(providerUrl);
+
+
+    try {
+      await compound.on('Mint', {});
+      assert.fail('no error thrown');
+    } catch (e) {
+      assert.equal(e instanceof Compound.errors.ValidationError, true);
+      assert.equal(e.code, 'INVALID_ARGUMENT');
+    }
+  });
+
+}
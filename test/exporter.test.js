@@ -0,0 +1,68 @@
+const assert = require('assert');
+const ethers = require('ethers');
+const Compound = require('../src/index.ts');
+const providerUrl = require('./config.js').httpProviderUrl;
+
+module.exports = function suite([ publicKeys, privateKeys ]) {
+
+  const acc1 = { address: publicKeys[0], privateKey: privateKeys[0] };
+
+  it('runs exporter.getActivityStatement', async function () {
+    const compound = new Compound(providerUrl, {
+      privateKey: acc1.privateKey
+    });
+
+    const ethersProvider = new ethers.providers.JsonRpcProvider(providerUrl);
+    const fromBlock = await ethersProvider.getBlockNumber();
+
+    const supplyEthTrx = await compound.supply(Compound.ETH, 2);
+    await supplyEthTrx.wait(1);
+
+    const redeemEthTrx = await compound.redeem(Compound.ETH, 1);
+    await redeemEthTrx.wait(1);
+
+    const statement = await compound.getActivityStatement(acc1.address, {
+      fromBlock
+    });
+
+    assert.deepEqual(statement.map(e => e.event), [ 'Mint', 'Redeem' ]);
+    assert.equal(statement[0].priceUsd > 0, true);
+    assert.equal(statement[0].valueUsd, statement[0].priceUsd * 2);
+    assert.equal(statement[0].costBasisUsd, statement[0].valueUsd);
+    assert.equal(statement[0].realizedGainUsd, null);
+    assert.equal(statement[1].costBasisUsd < statement[0].costBasisUsd, true);
+    assert.equal(typeof statement[1].realizedGainUsd, 'number');
+  });
+
+  it('runs exporter.exportActivity csv', async function () {
+    const compound = new Compound(providerUrl, {
+      privateKey: acc1.privateKey
+    });
+
+    const ethersProvider = new ethers.providers.JsonRpcProvider(providerUrl);
+    const fromBlock = await ethersProvider.getBlockNumber();
+
+    const supplyEthTrx = await compound.supply(Compound.ETH, 2);
+    await supplyEthTrx.wait(1);
+
+    const csv = await compound.exportActivity(acc1.address, { fromBlock });
+    const rows = csv.trim().split('\n');
+
+    assert.equal(rows.length, 2);
+    assert.equal(rows[0].startsWith('date,timestamp,blockNumber'), true);
+    assert.equal(rows[1].split(',')[4], 'Mint');
+  });
+
+  it('fails exporter.exportActivity bad format', async function () {
+    const compound = new Compound(providerUrl);
+
+    try {
+      await compound.exportActivity(acc1.address, { format: 'xml' });
+      assert.fail('no error thrown');
+    } catch (e) {
+      assert.equal(e instanceof Compound.errors.ValidationError, true);
+      assert.equal(e.code, 'INVALID_ARGUMENT');
+    }
+  });
+
+}
@@ -0,0 +1,57 @@
+const assert = require('assert');
+const ethers = require('ethers');
+const gas = require('../src/gas.ts');
+const eth = require('../src/eth.ts');
+const providerUrl = require('./config.js').httpProviderUrl;
+
+module.exports = function suite([ publicKeys, privateKeys ]) {
+
+  const acc1 = { address: publicKeys[0], privateKey: privateKeys[0] };
+
+  it('runs gas.getGasPrices', async function () {
+    const result = await gas.getGasPrices(providerUrl);
+
+    assert.equal(result.minimumGasPrice.isZero(), true);
+    assert.equal(result.standard.eq(result.gasPrice), true);
+    assert.equal(result.slow.lte(result.standard), true);
+    assert.equal(result.fast.gt(result.standard), true);
+  });
+
+  it('runs gas.getGasPrices with RSK minimum gas price', async function () {
+    const provider = {
+      _isProvider: true,
+      send: async (method) => method === 'eth_gasPrice' ?
+        '0x3b9aca0' : // 62500000
+        { minimumGasPrice: '0x3b9aca0' },
+    };
+
+    const result = await gas.getGasPrices(provider);
+
+    assert.equal(result.minimumGasPrice.toString(), '62500000');
+    assert.equal(result.slow.toString(), '63125000');
+    assert.equal(result.standard.toString(), '63125000');
+    assert.equal(result.fast.toString(), '75750000');
+  });
+
+  it('runs eth.trx with the provider fees outside RSK', async function () {
+    const cEthMainnetAddress = '0x4ddc2d193948926d02f9b1fe9e1daa0718270ed5';
+
+    const trx = await eth.trx(
+      cEthMainnetAddress,
+      'function mint() payable',
+      [],
+      {
+        value: ethers.utils.parseEther('1.0'),
+        provider: providerUrl,
+        privateKey: acc1.privateKey
+      }
+    );
+    await trx.wait(1);
+
+    // The fork is Ethereum mainnet, so Ethers.js picks EIP-1559 fees
+    //     instead of the legacy gas price used on RSK
+    assert.equal(trx.type, 2);
+    assert.equal(trx.maxFeePerGas.gt(0), true);
+  });
+
+}
@@ -0,0 +1,135 @@
+const assert = require('assert');
+const ethers = require('ethers');
+const Compound = require('../src/index.ts');
+const providerUrl = require('./config.js').httpProviderUrl;
+
+module.exports = function suite([ publicKeys, privateKeys ]) {
+
+  const acc1 = { address: publicKeys[0], privateKey: privateKeys[0] };
+
+  it('runs history.getAccountHistory', async function () {
+    const compound = new Compound(providerUrl, {
+      privateKey: acc1.privateKey
+    });
+
+    const ethersProvider = new ethers.providers.JsonRpcProvider(providerUrl);
+    const fromBlock = await ethersProvider.getBlockNumber();
+
+    const supplyEthTrx = await compound.supply(Compound.ETH, 2);
+    await supplyEthTrx.wait(1);
+
+    const enterEthMarket = await compound.enterMarkets(Compound.ETH);
+    await enterEthMarket.wait(1);
+
+    const borrowTrx = await compound.borrow(Compound.USDC, 5, { gasLimit: 600000 });
+    await borrowTrx.wait(1);
+
+    const history = await compound.getAccountHistory(acc1.address, { fromBlock });
+
+    assert.deepEqual(history.map(e => e.event), [ 'Mint', 'Borrow' ]);
+    assert.equal(history[0].cToken, 'cETH');
+    assert.equal(history[0].amount, 2);
+    assert.equal(history[0].cTokens > 0, true);
+    assert.equal(history[0].timestamp > 0, true);
+    assert.equal(history[1].cToken, 'cUSDC');
+    assert.equal(history[1].amount, 5);
+    assert.equal(history[1].counterparty, null);
+  });
+
+  it('runs history.getAccountHistory transfer', async function () {
+    const compound = new Compound(providerUrl, {
+      privateKey: acc1.privateKey
+    });
+
+    const ethersProvider = new ethers.providers.JsonRpcProvider(providerUrl);
+    const fromBlock = await ethersProvider.getBlockNumber();
+
+    const supplyEthTrx = await compound.supply(Compound.ETH, 2);
+    await supplyEthTrx.wait(1);
+
+    const transferTrx = await Compound.eth.trx(
+      Compound.util.getAddress(Compound.cETH, 'mainnet'),
+      'function transfer(address, uint) returns (bool)',
+      [ publicKeys[1], 1e8 ],
+      { provider: providerUrl, privateKey: acc1.privateKey }
+    );
+    await transferTrx.wait(1);
+
+    const history = await compound.getAccountHistory(acc1.address, { fromBlock });
+    const transfer = history.find(e => e.event === 'Transfer');
+
+    assert.equal(transfer.cTokens, -1);
+    assert.equal(transfer.amount < 0, true);
+    assert.equal(transfer.counterparty, publicKeys[1]);
+  });
+
+  it('runs history.getInterestSummary', async function () {
+    const compound = new Compound(providerUrl, {
+      privateKey: acc1.privateKey
+    });
+
+    const ethersProvider = new ethers.providers.JsonRpcProvider(providerUrl);
+    const fromBlock = await ethersProvider.getBlockNumber();
+
+    const supplyEthTrx = await compound.supply(Compound.ETH, 2);
+    await supplyEthTrx.wait(1);
+
+    const enterEthMarket = await compound.enterMarkets(Compound.ETH);
+    await enterEthMarket.wait(1);
+
+    const borrowTrx = await compound.borrow(Compound.USDC, 5, { gasLimit: 600000 });
+    await borrowTrx.wait(1);
+
+    const ethSummary = await compound.getInterestSummary(
+      acc1.address, Compound.ETH, { fromBlock }
+    );
+    const usdcSummary = await compound.getInterestSummary(
+      acc1.address, Compound.USDC, { fromBlock }
+    );
+
+    assert.equal(ethSummary.cToken, 'cETH');
+    assert.equal(ethSummary.netDeposits, 2);
+    assert.equal(ethSummary.depositsInterest >= 0, true);
+    assert.equal(ethSummary.depositsInterest < 0.001, true);
+    assert.equal(usdcSummary.netBorrows, 5);
+    assert.equal(usdcSummary.borrowInterest >= 0, true);
+    assert.equal(usdcSummary.borrowInterest < 0.001, true);
+  });
+
+  it('fails history.getInterestSummary invalid asset', async function () {
+    const compound = new Compound(providerUrl);
+
+    try {
+      await compound.getInterestSummary(acc1.address, 'UUUU', { fromBlock: 0 });
+      assert.fail('no error thrown');
+    } catch (e) {
+      assert.equal(e instanceof Compound.errors.ValidationError, true);
+      assert.equal(e.code, 'INVALID_ARGUMENT');
+    }
+  });
+
+  it('fails history.getAccountHistory invalid address', async function () {
+    const compound = new Compound(providerUrl);
+
+    try {
+      await compound.getAccountHistory('0xbad', { fromBlock: 0 });
+      assert.fail('no error thrown');
+    } catch (e) {
+      assert.equal(e instanceof Compound.errors.ValidationError, true);
+      assert.equal(e.code, 'INVALID_ARGUMENT');
+    }
+  });
+
+  it('fails history.getAccountHistory no fromBlock', async function () {
+    const compound = new Compound(providerUrl);
+
+    try {
+      await compound.getAccountHistory(acc1.address);
+      assert.fail('no error thrown');
+    } catch (e) {
+      assert.equal(e instanceof Compound.errors.ValidationError, true);
+      assert.equal(e.code, 'INVALID_ARGUMENT');
+    }
+  });
+
+}
@@ -18,14 +18,26 @@ const ethers = hre.ethers;
 let jsonRpcServer;
 
 // Source Files
+const account = require('./account.test.js');
+const allowance = require('./allowance.test.js');
 const comp = require('./comp.test.js');
 const comet = require('./comet.test.js');
 const comptroller = require('./comptroller.test.js');
 const cToken = require('./cToken.test.js');
 const EIP712 = require('./EIP712.test.js');
+const errors = require('./errors.test.js');
 const eth = require('./eth.test.js');
+const events = require('./events.test.js');
+const exporter = require('./exporter.test.js');
+const gas = require('./gas.test.js');
 const gov = require('./gov.test.js');
+const history = require('./history.test.js');
+const interestRateModel = require('./interestRateModel.test.js');
+const market = require('./market.test.js');
+const monitor = require('./monitor.test.js');
 const priceFeed = require('./priceFeed.test.js');
+const rates = require('./rates.test.js');
+const scanner = require('./scanner.test.js');
 const util = require('./util.test.js');
 const initialize = require('./initialize.test.js');
 
@@ -63,14 +75,26 @@ describe('Compound.js', function () {
     await jsonRpcServer.close();
   });
 
+  describe('./src/account.ts', account.bind(this, acc));
+  describe('./src/allowance.ts', allowance.bind(this, acc));
   describe('./src/comp.ts', comp.bind(this, acc));
   describe('./src/comet.ts', comet.bind(this, acc));
   describe('./src/comptroller.ts', comptroller.bind(this, acc));
   describe('./src/cToken.ts', cToken.bind(this, acc));
   describe('./src/EIP712.ts', EIP712.bind(this, acc));
+  describe('./src/errors.ts', errors.bind(this, acc));
   describe('./src/eth.ts', eth.bind(this, acc));
+  describe('./src/events.ts', events.bind(this, acc));
+  describe('./src/exporter.ts', exporter.bind(this, acc));
+  describe('./src/gas.ts', gas.bind(this, acc));
   describe('./src/gov.ts', gov.bind(this, acc));
+  describe('./src/history.ts', history.bind(this, acc));
+  describe('./src/interestRateModel.ts', interestRateModel.bind(this, acc));
+  describe('./src/market.ts', market.bind(this, acc));
+  describe('./src/monitor.ts', monitor.bind(this, acc));
   describe('./src/priceFeed.ts', priceFeed.bind(this, acc));
+  describe('./src/rates.ts', rates.bind(this, acc));
+  describe('./src/scanner.ts', scanner.bind(this, acc));
   describe('./src/util.ts', util.bind(this, acc));
   describe('initialize', initialize.bind(this, acc));
 
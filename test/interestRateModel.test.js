@@ -0,0 +1,92 @@
+const assert = require('assert');
+const Compound = require('../src/index.ts');
+const providerUrl = require('./config.js').httpProviderUrl;
+
+module.exports = function suite() {
+
+  it('runs interestRateModel.getInterestRateModel', async function () {
+    const compound = new Compound(providerUrl);
+
+    const result = await compound.getInterestRateModel(Compound.USDC);
+
+    assert.equal(typeof result.address, 'string');
+    assert.equal(result.multiplierPerBlock > 0, true);
+    assert.equal(result.kink > 0 && result.kink <= 1, true);
+  });
+
+  it('runs interestRateModel.getRateCurve', async function () {
+    const compound = new Compound(providerUrl);
+
+    const result = await compound.getRateCurve(Compound.USDC, { points: 11 });
+    const first = result.points[0];
+    const last = result.points[10];
+
+    assert.equal(result.model, (await compound.getInterestRateModel(Compound.USDC)).address);
+    assert.equal(result.points.length, 11);
+    assert.equal(first.utilization, 0);
+    assert.equal(first.supplyRatePerBlock, 0);
+    assert.equal(last.utilization, 1);
+    assert.equal(last.borrowRatePerBlock > first.borrowRatePerBlock, true);
+    assert.equal(result.utilization > 0 && result.utilization < 1, true);
+  });
+
+  it('fails interestRateModel.getRateCurve bad points', async function () {
+    const compound = new Compound(providerUrl);
+
+    try {
+      await compound.getRateCurve(Compound.USDC, { points: 1 });
+      assert.fail('no error thrown');
+    } catch (e) {
+      assert.equal(e instanceof Compound.errors.ValidationError, true);
+      assert.equal(e.code, 'INVALID_ARGUMENT');
+    }
+  });
+
+  it('runs interestRateModel.simulateRates supply', async function () {
+    const compound = new Compound(providerUrl);
+
+    const result = await compound.simulateRates(Compound.USDC, {
+      supplyDelta: 100000000,
+    });
+
+    assert.equal(result.cToken, 'cUSDC');
+    assert.equal(result.simulated.utilization < result.current.utilization, true);
+    assert.equal(result.simulated.supplyApy < result.current.supplyApy, true);
+  });
+
+  it('runs interestRateModel.simulateRates borrow', async function () {
+    const compound = new Compound(providerUrl);
+
+    const result = await compound.simulateRates(Compound.USDC, {
+      borrowDelta: 10000000,
+    });
+
+    assert.equal(result.simulated.utilization > result.current.utilization, true);
+    assert.equal(result.simulated.borrowRatePerBlock > result.current.borrowRatePerBlock, true);
+  });
+
+  it('fails interestRateModel.simulateRates borrow above cash', async function () {
+    const compound = new Compound(providerUrl);
+
+    try {
+      await compound.simulateRates(Compound.USDC, { borrowDelta: 1e15 });
+      assert.fail('no error thrown');
+    } catch (e) {
+      assert.equal(e instanceof Compound.errors.ProtocolError, true);
+      assert.equal(e.code, 'INSUFFICIENT_CASH');
+    }
+  });
+
+  it('fails interestRateModel.simulateRates NaN delta', async function () {
+    const compound = new Compound(providerUrl);
+
+    try {
+      await compound.simulateRates(Compound.USDC, { supplyDelta: NaN });
+      assert.fail('no error thrown');
+    } catch (e) {
+      assert.equal(e instanceof Compound.errors.ValidationError, true);
+      assert.equal(e.code, 'INVALID_ARGUMENT');
+    }
+  });
+
+}
@@ -0,0 +1,51 @@
+const assert = require('assert');
+const Compound = require('../src/index.ts');
+const providerUrl = require('./config.js').httpProviderUrl;
+
+module.exports = function suite() {
+
+  it('runs market.getMarketSnapshot', async function () {
+    const compound = new Compound(providerUrl);
+
+    const result = await compound.getMarketSnapshot(Compound.USDC);
+
+    assert.equal(result.asset, 'USDC');
+    assert.equal(result.cToken, 'cUSDC');
+    assert.equal(typeof result.cash, 'number');
+    assert.equal(result.exchangeRate > 0, true);
+    assert.equal(result.reserveFactor > 0 && result.reserveFactor < 1, true);
+  });
+
+  it('runs market.getMarketSnapshot with cToken name', async function () {
+    const compound = new Compound(providerUrl);
+
+    const result = await compound.getMarketSnapshot(Compound.cDAI);
+
+    assert.equal(result.asset, 'DAI');
+    assert.equal(result.cToken, 'cDAI');
+  });
+
+  it('fails market.getMarketSnapshot unsupported asset', async function () {
+    const compound = new Compound(providerUrl);
+
+    try {
+      await compound.getMarketSnapshot('badasset');
+      assert.fail('no error thrown');
+    } catch (e) {
+      assert.equal(e instanceof Compound.errors.ValidationError, true);
+      assert.equal(e.code, 'INVALID_ARGUMENT');
+    }
+  });
+
+  it('runs market.getAllMarketSnapshots', async function () {
+    const compound = new Compound(providerUrl);
+
+    const result = await compound.getAllMarketSnapshots();
+    const cTokens = result.map(m => m.cToken);
+
+    assert.equal(Array.isArray(result), true);
+    assert.equal(cTokens.includes('cETH'), true);
+    assert.equal(cTokens.includes('cUSDC'), true);
+  });
+
+}
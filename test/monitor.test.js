@@ -0,0 +1,117 @@
+const assert = require('assert');
+const Compound = require('../src/index.ts');
+const providerUrl = require('./config.js').httpProviderUrl;
+
+module.exports = function suite([ publicKeys, privateKeys ]) {
+
+  const acc1 = { address: publicKeys[0], privateKey: privateKeys[0] };
+
+  it('runs monitor.getAccountHealth', async function () {
+    const compound = new Compound(providerUrl, {
+      privateKey: acc1.privateKey
+    });
+
+    const supplyEthTrx = await compound.supply(Compound.ETH, 2);
+    await supplyEthTrx.wait(1);
+
+    const enterEthMarket = await compound.enterMarkets(Compound.ETH);
+    await enterEthMarket.wait(1);
+
+    const borrowTrx = await compound.borrow(Compound.USDC, 5, { gasLimit: 600000 });
+    await borrowTrx.wait(1);
+
+    const health = await compound.getAccountHealth(acc1.address);
+
+    assert.equal(health.account, acc1.address);
+    assert.equal(health.borrowValue > 4.9 && health.borrowValue < 5.1, true);
+    assert.equal(health.collateralValue > health.borrowValue, true);
+    assert.equal(health.healthFactor, health.collateralValue / health.borrowValue);
+    assert.equal(health.shortfall, 0);
+  });
+
+  it('runs monitor.getAccountHealth without borrows', async function () {
+    const compound = new Compound(providerUrl);
+
+    const health = await compound.getAccountHealth(acc1.address);
+
+    assert.equal(health.borrowValue, 0);
+    assert.equal(health.healthFactor, Infinity);
+  });
+
+  it('runs monitor.monitorAccountHealth', async function () {
+    const compound = new Compound(providerUrl);
+
+    const updates = [];
+    const warnings = [];
+    const stop = await compound.monitorAccountHealth(acc1.address, {
+      pollingInterval: 100,
+      onUpdate: (health) => updates.push(health),
+      onWarning: (health) => warnings.push(health),
+    });
+
+    await new Promise((resolve) => setTimeout(resolve, 250));
+    stop();
+
+    assert.equal(updates.length >= 2, true);
+    assert.equal(warnings.length, 0);
+  });
+
+  it('runs monitor.monitorAccountHealth below thresholds', async function () {
+    const compound = new Compound(providerUrl);
+
+    const health = await compound.getAccountHealth(acc1.address);
+
+    const warnings = [];
+    const criticals = [];
+    const stopWarning = await compound.monitorAccountHealth(acc1.address, {
+      warningThreshold: health.healthFactor * 2,
+      criticalThreshold: 1,
+      onWarning: (health) => warnings.push(health),
+      onCritical: (health) => criticals.push(health),
+    });
+    stopWarning();
+
+    assert.equal(warnings.length, 1);
+    assert.equal(criticals.length, 0);
+    assert.equal(warnings[0].account, acc1.address);
+
+    const stopCritical = await compound.monitorAccountHealth(acc1.address, {
+      warningThreshold: health.healthFactor * 3,
+      criticalThreshold: health.healthFactor * 2,
+      onWarning: (health) => warnings.push(health),
+      onCritical: (health) => criticals.push(health),
+    });
+    stopCritical();
+
+    assert.equal(warnings.length, 1);
+    assert.equal(criticals.length, 1);
+  });
+
+  it('fails monitor.getAccountHealth invalid account', async function () {
+    const compound = new Compound(providerUrl);
+
+    try {
+      await compound.getAccountHealth('0xbadaddress');
+      assert.fail('no error thrown');
+    } catch (e) {
+      assert.equal(e instanceof Compound.errors.ValidationError, true);
+      assert.equal(e.code, 'INVALID_ARGUMENT');
+    }
+  });
+
+  it('fails monitor.monitorAccountHealth invalid thresholds', async function () {
+    const compound = new Compound(providerUrl);
+
+    try {
+      await compound.monitorAccountHealth(acc1.address, {
+        warningThreshold: 1.1,
+        criticalThreshold: 1.5,
+      });
+      assert.fail('no error thrown');
+    } catch (e) {
+      assert.equal(e instanceof Compound.errors.ValidationError, true);
+      assert.equal(e.code, 'INVALID_ARGUMENT');
+    }
+  });
+
+}
@@ -0,0 +1,95 @@
+const assert = require('assert');
+const ethers = require('ethers');
+const rates = require('../src/rates.ts');
+const errors = require('../src/errors.ts');
+
+module.exports = function suite() {
+
+  it('runs rates.toApr with RSK blocks per year', async function () {
+    const result = rates.toApr(0.0000001);
+
+    assert.equal(result.toFixed(6), '0.105120');
+  });
+
+  it('runs rates.toApr with custom blocks per year', async function () {
+    const result = rates.toApr(0.0000001, { blocksPerYear: 2102400 });
+
+    assert.equal(result.toFixed(6), '0.210240');
+  });
+
+  it('runs rates.toApr with a mantissa', async function () {
+    const mantissa = ethers.BigNumber.from('100000000000');
+    const result = rates.toApr(mantissa, { mantissa: true });
+
+    assert.equal(result.toFixed(6), '0.105120');
+  });
+
+  it('runs rates.toApy compounding every block', async function () {
+    const ratePerBlock = 0.0000001;
+    const result = rates.toApy(ratePerBlock);
+
+    const expected = Math.pow(1 + ratePerBlock, 1051200) - 1;
+
+    assert.equal(result.toFixed(8), expected.toFixed(8));
+    assert.equal(result > rates.toApr(ratePerBlock), true);
+  });
+
+  it('runs rates.toApy zero rate', async function () {
+    const result = rates.toApy('0', { mantissa: true });
+
+    assert.equal(result, 0);
+  });
+
+  it('fails rates.toApy bad rate', async function () {
+    try {
+      rates.toApy(null);
+      assert.fail('no error thrown');
+    } catch (e) {
+      assert.equal(e instanceof errors.ValidationError, true);
+      assert.equal(e.code, 'INVALID_ARGUMENT');
+    }
+  });
+
+  it('fails rates.toApr bad blocks per year', async function () {
+    try {
+      rates.toApr(0.0000001, { blocksPerYear: 0 });
+      assert.fail('no error thrown');
+    } catch (e) {
+      assert.equal(e instanceof errors.ValidationError, true);
+      assert.equal(e.code, 'INVALID_ARGUMENT');
+    }
+  });
+
+  const model = {
+    baseRatePerBlock: 0.00000001,
+    multiplierPerBlock: 0.0000001,
+    jumpMultiplierPerBlock: 0.000001,
+    kink: 0.8,
+  };
+
+  it('runs rates.utilizationRate', async function () {
+    assert.equal(rates.utilizationRate(50, 50, 0), 0.5);
+    assert.equal(rates.utilizationRate(40, 50, 10), 0.625);
+    assert.equal(rates.utilizationRate(100, 0, 0), 0);
+  });
+
+  it('runs rates.borrowRateAt below the kink', async function () {
+    const result = rates.borrowRateAt(model, 0.5);
+
+    assert.equal(result.toFixed(10), '0.0000000600');
+  });
+
+  it('runs rates.borrowRateAt above the kink', async function () {
+    const result = rates.borrowRateAt(model, 0.9);
+
+    // 0.8 * multiplier + base + 0.1 * jump
+    assert.equal(result.toFixed(10), '0.0000001900');
+  });
+
+  it('runs rates.supplyRateAt', async function () {
+    const result = rates.supplyRateAt(model, 0.5, 0.2);
+
+    assert.equal(result.toFixed(10), '0.0000000240');
+  });
+
+}
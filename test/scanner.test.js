@@ -0,0 +1,54 @@
+const assert = require('assert');
+const ethers = require('ethers');
+const Compound = require('../src/index.ts');
+const providerUrl = require('./config.js').httpProviderUrl;
+
+module.exports = function suite([ publicKeys, privateKeys ]) {
+
+  const acc1 = { address: publicKeys[0], privateKey: privateKeys[0] };
+
+  it('runs scanner.getBorrowers', async function () {
+    const compound = new Compound(providerUrl, {
+      privateKey: acc1.privateKey
+    });
+
+    const ethersProvider = new ethers.providers.JsonRpcProvider(providerUrl);
+    const fromBlock = await ethersProvider.getBlockNumber();
+
+    const supplyEthTrx = await compound.supply(Compound.ETH, 2);
+    await supplyEthTrx.wait(1);
+
+    const enterEthMarket = await compound.enterMarkets(Compound.ETH);
+    await enterEthMarket.wait(1);
+
+    const borrowTrx = await compound.borrow(Compound.USDC, 5, { gasLimit: 600000 });
+    await borrowTrx.wait(1);
+
+    const accounts = await compound.getBorrowers({ fromBlock });
+
+    assert.deepEqual(accounts, [ acc1.address ]);
+  });
+
+  it('runs scanner.getUnderwaterAccounts', async function () {
+    const compound = new Compound(providerUrl, {
+      privateKey: acc1.privateKey
+    });
+
+    const ethersProvider = new ethers.providers.JsonRpcProvider(providerUrl);
+    const fromBlock = await ethersProvider.getBlockNumber();
+
+    const supplyEthTrx = await compound.supply(Compound.ETH, 2);
+    await supplyEthTrx.wait(1);
+
+    const enterEthMarket = await compound.enterMarkets(Compound.ETH);
+    await enterEthMarket.wait(1);
+
+    const borrowTrx = await compound.borrow(Compound.USDC, 5, { gasLimit: 600000 });
+    await borrowTrx.wait(1);
+
+    const accounts = await compound.getUnderwaterAccounts({ fromBlock });
+
+    assert.deepEqual(accounts, []);
+  });
+
+}
@@ -1,5 +1,6 @@
 const assert = require('assert');
 const util = require('../src/util.ts');
+const errors = require('../src/errors.ts');
 
 module.exports = function suite() {
 
@@ -20,6 +21,27 @@ module.exports = function suite() {
     assert.equal(isArray, true);
   });
 
+  it('fails util.getAbi unknown contract', async function () {
+    try {
+      util.getAbi('NotAContract');
+      assert.fail('no error thrown');
+    } catch (e) {
+      assert.equal(e instanceof errors.ValidationError, true);
+      assert.equal(e.code, 'INVALID_ARGUMENT');
+    }
+  });
+
+  it('fails util.request unreachable host', async function () {
+    try {
+      await util.request({ url: 'http://127.0.0.1:1', method: 'GET' });
+      assert.fail('no error thrown');
+    } catch (e) {
+      assert.equal(e instanceof errors.RpcError, true);
+      assert.equal(e.code, 'RPC_ERROR');
+      assert.equal(e.cause instanceof Error, true);
+    }
+  });
+
   it('runs util.getNetNameWithChainId', async function () {
     const result = util.getNetNameWithChainId(5);
 
@@ -37,4 +59,39 @@ module.exports = function suite() {
     }
   });
 
-}
\ No newline at end of file
+  it('runs util.toCsv', async function () {
+    const rows = [ { asset: 'DOC', amount: 5, note: null } ];
+    const result = util.toCsv(rows, [ 'asset', 'amount', 'note' ]);
+
+    assert.equal(result, 'asset,amount,note\nDOC,5,\n');
+  });
+
+  it('runs util.toCsv escapes formula prefixes', async function () {
+    const rows = [
+      { text: '=1+1' }, { text: '+1' }, { text: '-1' }, { text: '@SUM(A1)' },
+      { text: '\t=1+1' }, { text: '\r=1+1' }, { text: -1 },
+    ];
+    const result = util.toCsv(rows, [ 'text' ]);
+
+    const expectedResult = [
+      'text', "'=1+1", "'+1", "'-1", "'@SUM(A1)", "'\t=1+1", "\"'\r=1+1\"",
+      '-1',
+    ].join('\n') + '\n';
+
+    assert.equal(result, expectedResult);
+  });
+
+  it('runs util.toCsv quotes separators', async function () {
+    const rows = [
+      { text: 'a,b' }, { text: 'say "hi"' }, { text: 'a\nb' }, { text: 'a\rb' },
+    ];
+    const result = util.toCsv(rows, [ 'text' ]);
+
+    const expectedResult = [
+      'text', '"a,b"', '"say ""hi"""', '"a\nb"', '"a\rb"',
+    ].join('\n') + '\n';
+
+    assert.equal(result, expectedResult);
+  });
+
+}